@@ -21,18 +21,79 @@ import {
   SinglesPlayerConfig,
   DoublesTeamConfig,
   DoublesTeam,
+  DecidingPointChoice,
+  CourtSide,
+  SetFormat,
+  CoinToss,
+  TossChoice,
+  CourtEnd,
+  Changeover,
+  ServeEvent,
+  PointInput,
+  RallyInfo,
+  ShotInfo,
+  Stroke,
+  ServePlacement,
+  CodeViolation,
+  ViolationType,
+  PenaltyType,
+  MatchEnding,
+  MatchClock,
+  Suspension,
+  MatchEvent,
+  MatchEventType,
+  Challenge,
+  ChallengeStatistics,
+  TossOptions,
+  ViolationOptions,
+  MatchEventOptions,
+  ChallengeOptions,
+  MatchInput,
+  MatchMilestones,
+  MatchMilestoneListener,
 } from "./types.js";
 import {
   createMatchParticipants,
   getNextServer,
   createServingRotation,
   getPlayerIds,
+  validateParticipantConfig,
 } from "./participant-factory.js";
 import {
   StatisticsManager,
   createEmptyStats,
   createEmptyTeamStats,
 } from "./statistics-aggregator.js";
+import {
+  createMatchFormat,
+  getChallengeAllowance,
+  getSetFormat,
+} from "./match-format.js";
+
+/**
+ * A step in the scoring history: a point, or a game awarded as a penalty.
+ */
+type ScoreEntry =
+  | { point: PointInput; decidingPoint?: DecidingPointChoice }
+  | { penaltyPoint: ParticipantPosition; time?: Date }
+  | { penaltyGame: ParticipantPosition; time?: Date };
+
+/**
+ * Where play stood after a number of points, for anchoring records.
+ */
+type GamePosition = {
+  pointIndex: number;
+  set: number;
+  game: number;
+  tiebreak: boolean;
+};
+
+/**
+ * A match input before the time it was made is added.
+ */
+type UntimedInput<T = MatchInput> = T extends MatchInput
+  ? Omit<T, "timestamp">
+  : never;
 
 /**
  * Main class for managing a tennis match with unified singles and doubles support.
@@ -70,31 +131,66 @@ export class TennisMatch {
   private setScores: [number, number];
   private gameScores: [number, number];
   private pointScores: [number | string, number | string];
+  private decidingPointChoice?: DecidingPointChoice;
+  private toss?: CoinToss;
+  private pendingServe: ServeEvent[] = [];
+  private violations: CodeViolation[] = [];
+  private ending?: MatchEnding;
+  private clock: MatchClock = { suspensions: [] };
+  private events: MatchEvent[] = [];
+  private challenges: Challenge[] = [];
+  private redoStack: PointSummary[] = [];
+  private statsHistory?: Map<string, ParticipantStatistics | TeamStatistics>[] =
+    [];
+  private inputs?: MatchInput[] = [];
+  private applyingInput = false;
+  private inputTime?: Date;
+  private listeners: {
+    [K in keyof MatchMilestones]?: MatchMilestoneListener<K>[];
+  } = {};
+  private milestones: (() => void)[] = [];
   private saveCallback?: (match: TennisMatch) => void;
 
   /**
    * Creates a new tennis match.
    *
-   * @param player1OrTeam1 - Player 1 name (singles) or [Player A, Player B] names (doubles)
-   * @param player2OrTeam2 - Player 2 name (singles) or [Player A, Player B] names (doubles)
-   * @param numSets - Number of sets to play (must be odd, default: 3)
+   * @param player1OrTeam1 - Player 1 name (singles), [Player A, Player B] names (doubles),
+   *   or a participant config
+   * @param player2OrTeam2 - Player 2 name (singles), [Player A, Player B] names (doubles),
+   *   or a participant config
+   * @param numSetsOrFormat - Number of sets to play (must be odd, default: 3),
+   *   or a partial MatchFormat overriding the standard format
    * @param saveCallback - Optional callback for auto-saving match state
-   * @throws Error if numSets is even
+   * @throws Error if the number of sets is even or the format is not playable
    *
    * @example
    * ```typescript
    * const match = new TennisMatch("Player 1", "Player 2", 5);
+   * const noAd = new TennisMatch("Player 1", "Player 2", {
+   *   sets: 3,
+   *   noAdScoring: true,
+   * });
    * ```
    */
   constructor(
-    player1OrTeam1: string | [string, string],
-    player2OrTeam2: string | [string, string],
-    numSets: number = 3,
+    player1OrTeam1:
+      | string
+      | [string, string]
+      | SinglesPlayerConfig
+      | DoublesTeamConfig,
+    player2OrTeam2:
+      | string
+      | [string, string]
+      | SinglesPlayerConfig
+      | DoublesTeamConfig,
+    numSetsOrFormat: number | Partial<MatchFormat> = 3,
     saveCallback?: (match: TennisMatch) => void
   ) {
-    if (numSets % 2 === 0) {
-      throw new Error("Number of sets must be odd");
-    }
+    const format = createMatchFormat(
+      typeof numSetsOrFormat === "number"
+        ? { sets: numSetsOrFormat }
+        : numSetsOrFormat
+    );
 
     // Create participants
     this.participants = createMatchParticipants(player1OrTeam1, player2OrTeam2);
@@ -114,11 +210,7 @@ export class TennisMatch {
           | SinglesPlayerConfig
           | DoublesTeamConfig,
       },
-      format: {
-        sets: numSets,
-        tiebreakAt: 6,
-        finalSetTiebreak: true,
-      },
+      format,
     };
 
     // Initialize statistics
@@ -131,10 +223,10 @@ export class TennisMatch {
     this.setHistory = [];
     this.currentSetGames = [];
     this.currentGamePoints = [];
-    this.tiebreak = false;
     this.setScores = [0, 0];
     this.gameScores = [0, 0];
     this.pointScores = [0, 0];
+    this.tiebreak = this.isTiebreakScore(); // Single-set match tiebreak formats
 
     // Initialize serving
     if (matchType === "doubles") {
@@ -154,34 +246,161 @@ export class TennisMatch {
     this.saveCallback = saveCallback || this.defaultSaveCallback();
   }
 
+  /**
+   * Creates a new match from a complete match configuration.
+   *
+   * Honors participant IDs, rankings and countries, the match format, the
+   * first server and the surface, tournament and round details.
+   *
+   * @param config - Match configuration
+   * @param saveCallback - Optional callback for auto-saving match state
+   * @returns New TennisMatch instance
+   * @throws Error if the participants do not match the configured match type
+   *
+   * @example
+   * ```typescript
+   * const match = TennisMatch.fromConfig({
+   *   matchType: "singles",
+   *   participants: {
+   *     1: { name: "Roger Federer", id: "federer", ranking: 1, country: "SUI" },
+   *     2: { name: "Rafael Nadal", id: "nadal", ranking: 2, country: "ESP" },
+   *   },
+   *   format: { sets: 5, tiebreakAt: 6, finalSetTiebreak: false },
+   *   firstServer: 2,
+   *   surface: "grass",
+   *   tournament: "Wimbledon",
+   *   round: "F",
+   * });
+   * ```
+   */
+  static fromConfig(
+    config: MatchConfig,
+    saveCallback?: (match: TennisMatch) => void
+  ): TennisMatch {
+    validateParticipantConfig(config.participants[1]);
+    validateParticipantConfig(config.participants[2]);
+
+    const isDoubles = config.matchType !== "singles";
+    for (const position of [1, 2] as const) {
+      if ("players" in config.participants[position] !== isDoubles) {
+        throw new Error(
+          `Participant ${position} does not match match type ${config.matchType}`
+        );
+      }
+    }
+
+    const match = new TennisMatch(
+      config.participants[1],
+      config.participants[2],
+      config.format,
+      saveCallback
+    );
+
+    match.config.matchType = config.matchType;
+    if (config.surface) match.config.surface = config.surface;
+    if (config.tournament) match.config.tournament = config.tournament;
+    if (config.round) match.config.round = config.round;
+
+    if (config.firstServer !== undefined) {
+      match.config.firstServer = config.firstServer;
+      if (config.firstServer !== "toss") {
+        match.setFirstServer(config.firstServer);
+      }
+    }
+
+    return match;
+  }
+
   /**
    * Scores a point in the match.
    *
    * Updates the score, statistics, and checks for game/set/match completion.
    * Automatically saves match state after scoring.
    *
+   * The point can also be described with a single PointInput object, which
+   * additionally carries the serve placement, rally information, the final
+   * shot and free-form tags.
+   *
    * @param winner - Position of the winning participant (1 or 2)
    * @param outcome - Type of point outcome (default: Regular)
    * @param scorerId - For doubles: ID of the specific player who scored the point
-   * @param isFirstServe - Whether this point was on first serve (default: true)
+   * @param isFirstServe - Whether this point was on first serve. When omitted,
+   *   the faults and lets recorded with recordFault/recordLet are used.
+   * @throws {Error} If the serve, rally or shot information is invalid
    *
    * @example
    * ```typescript
    * match.scorePoint(1, PointOutcome.Ace);
    * match.scorePoint(2, PointOutcome.Winner);
+   * match.scorePoint({
+   *   winner: 1,
+   *   outcome: PointOutcome.Winner,
+   *   rally: { shots: 9, endLocation: "net" },
+   *   tags: ["drop-shot"],
+   * });
    * ```
    */
+  scorePoint(point: PointInput): void;
   scorePoint(
     winner: ParticipantPosition,
+    outcome?: PointOutcome,
+    scorerId?: string,
+    isFirstServe?: boolean
+  ): void;
+  scorePoint(
+    winnerOrPoint: ParticipantPosition | PointInput,
     outcome: PointOutcome = PointOutcome.Regular,
     scorerId?: string,
-    isFirstServe: boolean = true
+    isFirstServe?: boolean
   ): void {
+    const input: PointInput =
+      typeof winnerOrPoint === "object"
+        ? winnerOrPoint
+        : { winner: winnerOrPoint, outcome, scorer: scorerId, isFirstServe };
+    if (
+      this.logInput({ type: "point", point: { ...input } }, () =>
+        this.scorePoint(input)
+      )
+    ) {
+      return;
+    }
+
     if (this.matchWinner) {
       console.warn("Match is already complete");
       return;
     }
 
+    this.checkCanPlay();
+
+    const winner = input.winner;
+    outcome = input.outcome || PointOutcome.Regular;
+    scorerId = input.scorer;
+    isFirstServe = input.isFirstServe;
+
+    if (outcome === PointOutcome.Penalty) {
+      throw new Error("Penalty points are awarded with issueViolation");
+    }
+
+    if (input.rally) {
+      this.validateRally(input.rally);
+    }
+    if (input.shot) {
+      this.validateShot(input.shot, outcome);
+    }
+    if (input.placement) {
+      this.validatePlacement(input.placement, outcome);
+    }
+    if (
+      input.fault !== undefined &&
+      (input.fault < 0 || input.fault > 1) &&
+      outcome !== PointOutcome.DoubleFault
+    ) {
+      throw new Error("A point played after a serve must have 0 or 1 faults");
+    }
+
+    const timestamp = input.timestamp || this.now();
+    this.startClockIfNeeded(timestamp);
+
     const loser: ParticipantPosition = winner === 1 ? 2 : 1;
     const winnerId = this.participants[winner].id;
     const loserId = this.participants[loser].id;
@@ -192,10 +411,47 @@ export class TennisMatch {
       outcome,
       server: this.currentServerId,
       scorer: scorerId,
-      timestamp: new Date(),
+      timestamp,
       score: [0, 0], // Placeholder, will be updated below
     };
 
+    if (isFirstServe !== undefined) point.isFirstServe = isFirstServe;
+
+    // Record the receiving side's choice on a no-ad deciding point
+    if (this.isDecidingPoint()) {
+      point.decidingPoint = this.decidingPointChoice || { court: "deuce" };
+    }
+    point.court = this.getServeCourt();
+    this.decidingPointChoice = undefined;
+
+    if (input.rally) {
+      point.rally = { ...input.rally };
+      if (input.rally.approaches) {
+        point.rally.approaches = [...input.rally.approaches];
+      }
+    }
+    if (input.shot) point.shot = { ...input.shot };
+    if (input.tags && input.tags.length > 0) point.tags = [...input.tags];
+
+    // Record the serve sequence that led to the point
+    const faults =
+      outcome === PointOutcome.DoubleFault
+        ? 2
+        : input.fault !== undefined
+          ? input.fault
+          : isFirstServe === false
+            ? 1
+            : this.countPendingServes("fault");
+    const lets =
+      input.lets !== undefined ? input.lets : this.countPendingServes("let");
+    if (faults > 0) point.fault = faults;
+    if (lets > 0) point.lets = lets;
+    this.pendingServe = [];
+    this.redoStack = [];
+
+    // Keep the statistics from before the point, so undo can restore them
+    this.statsHistory?.push(this.statsManager.getAllStats());
+
     // Check for break point opportunity BEFORE recording the point
     const isBP = this.checkBreakPoint();
 
@@ -206,9 +462,24 @@ export class TennisMatch {
       outcome,
       this.currentServerId,
       scorerId,
-      isFirstServe
+      isFirstServe,
+      isFirstServe === undefined ? faults : undefined,
+      input.rally,
+      input.shot
     );
 
+    if (input.placement) {
+      point.placement = input.placement;
+      this.statsManager.recordServePlacement(
+        this.currentServerId,
+        point.court,
+        faults === 0 ? 1 : 2,
+        input.placement,
+        winner === this.getServerPosition(),
+        outcome === PointOutcome.Ace
+      );
+    }
+
     if (isBP) {
       const serverPos = this.getServerPosition();
       const receiverPos = serverPos === 1 ? 2 : 1;
@@ -220,176 +491,1240 @@ export class TennisMatch {
       );
     }
 
+    this.addPoint(point);
+  }
+
+  /**
+   * Adds a point to the current game and moves the score on.
+   */
+  private addPoint(point: PointSummary): void {
     // Add point to current game
     this.currentGamePoints.push(point);
 
     // Update point score
-    this.updatePointScore(winner);
+    this.updatePointScore(point.winner);
 
     // Update point summary with the new score
     point.score = [...this.pointScores] as [number | string, number | string];
+    this.emit("point", { point });
 
     // Check for game winner
     if (this.checkGameWinner()) {
-      this.completeGame(winner);
+      this.completeGame(point.winner, false, point.timestamp);
+    } else if (this.tiebreak && this.currentGamePoints.length % 6 === 0) {
+      // Ends change every six points in a tiebreak
+      point.changeover = { type: "end-change", changeEnds: true };
+      this.emit("changeover", { changeover: point.changeover, point });
     }
-
-    // Save state
-    this.save();
   }
 
   /**
-   * Updates the point score within a game or tiebreak.
+   * Issues a code violation against a participant and applies the penalty.
+   *
+   * Penalties follow the standard ladder for each participant: a warning,
+   * then a point penalty, then a game penalty, then a default. Penalty points
+   * and games are added to the score history as penalties and do not count
+   * towards statistics. A default ends the match in the opponent's favour,
+   * as with recordDefault.
+   *
+   * @param position - Position of the participant who committed the violation
+   * @param type - Type of code violation
+   * @param options - The player who committed it (doubles) and an optional
+   *   penalty that overrides the ladder, e.g. an immediate default
+   * @returns The recorded violation
+   * @throws {Error} If the player is not on the penalised side
+   *
+   * @example
+   * ```typescript
+   * match.issueViolation(1, "racquetAbuse"); // Warning
+   * match.issueViolation(1, "audibleObscenity"); // Point penalty
+   * ```
    */
-  private updatePointScore(winner: ParticipantPosition): void {
-    const loser: ParticipantPosition = winner === 1 ? 2 : 1;
+  issueViolation(
+    position: ParticipantPosition,
+    type: ViolationType,
+    options: ViolationOptions = {}
+  ): CodeViolation | undefined {
+    const logged = this.logInput(
+      { type: "violation", participant: position, violation: type, options },
+      () => this.issueViolation(position, type, options)
+    );
+    if (logged) return logged.result;
 
-    if (this.tiebreak) {
-      // Tiebreak scoring - count the points from currentGamePoints
-      const numericScores = this.getNumericPointScores();
-      this.pointScores = numericScores;
+    if (this.matchWinner) {
+      console.warn("Match is already complete");
+      return undefined;
+    }
 
-      // Update server in tiebreak (changes every 2 points after first point)
-      const totalPoints = numericScores[0] + numericScores[1];
-      if (totalPoints === 1 || (totalPoints > 1 && totalPoints % 2 === 1)) {
-        this.rotateServer();
-      }
-    } else {
-      // Regular game scoring - count points from currentGamePoints and convert
-      const numericScores = this.getNumericPointScores();
-      this.pointScores = this.convertToTennisScore(numericScores);
+    if (
+      options.playerId &&
+      !getPlayerIds(this.participants[position]).includes(options.playerId)
+    ) {
+      throw new Error(
+        `Player ${options.playerId} is not on the penalised side`
+      );
     }
+
+    const ladder: PenaltyType[] = ["warning", "point", "game", "default"];
+    const previous = this.violations.filter(
+      (violation) => violation.participant === position
+    ).length;
+    const violation: CodeViolation = {
+      participant: position,
+      type,
+      penalty: options.penalty || ladder[Math.min(previous, ladder.length - 1)],
+      set: this.currentSet,
+      game: this.currentGame,
+      pointIndex: this.countPointsPlayed(),
+      timestamp: this.now(),
+    };
+    if (options.playerId) violation.playerId = options.playerId;
+    this.violations.push(violation);
+
+    const opponent: ParticipantPosition = position === 1 ? 2 : 1;
+    switch (violation.penalty) {
+      case "point":
+        this.awardPenaltyPoint(opponent);
+        break;
+      case "game":
+        this.pendingServe = [];
+        this.redoStack = [];
+        this.decidingPointChoice = undefined;
+        this.completeGame(opponent, true);
+        break;
+      case "default":
+        this.endEarly("defaulted", position, `Code violation: ${type}`);
+        break;
+    }
+
+    return violation;
   }
 
   /**
-   * Converts numeric scores to tennis scoring (0, 15, 30, 40, deuce, advantage).
+   * Awards a penalty point without counting it as a played point.
    */
-  private convertToTennisScore(
-    scores: [number, number]
-  ): [number | string, number | string] {
-    const [p1Score, p2Score] = scores;
+  private awardPenaltyPoint(
+    winner: ParticipantPosition,
+    timestamp: Date = this.now()
+  ): void {
+    const point: PointSummary = {
+      winner,
+      outcome: PointOutcome.Penalty,
+      server: this.currentServerId,
+      timestamp,
+      score: [0, 0], // Placeholder, will be updated by addPoint
+    };
 
-    // Both at 3+ points
-    if (p1Score >= 3 && p2Score >= 3) {
-      if (p1Score === p2Score) {
-        return ["DEUCE", "DEUCE"];
-      } else if (p1Score > p2Score) {
-        const serverIs1 = this.getServerPosition() === 1;
-        return [serverIs1 ? "AD IN" : "AD OUT", "-"];
-      } else {
-        const serverIs2 = this.getServerPosition() === 2;
-        return ["-", serverIs2 ? "AD IN" : "AD OUT"];
-      }
+    this.pendingServe = [];
+    this.redoStack = [];
+    this.decidingPointChoice = undefined;
+    this.statsHistory?.push(this.statsManager.getAllStats());
+    this.addPoint(point);
+  }
+
+  /**
+   * Ends the match with the retirement of a participant.
+   *
+   * A match can be retired at any point: between points, part way through a
+   * game or between sets. Any fault or let already recorded on the point is
+   * discarded. The opponent wins and the score stands as it was.
+   *
+   * @param position - Position of the participant who retired
+   * @param reason - Reason for the retirement, e.g. "Injury"
+   *
+   * @example
+   * ```typescript
+   * match.recordRetirement(2, "Injury");
+   * match.getMatchScoreString(); // "6-4, 3-2 ret."
+   * ```
+   */
+  recordRetirement(position: ParticipantPosition, reason?: string): void {
+    if (
+      this.logInput({ type: "retirement", participant: position, reason }, () =>
+        this.recordRetirement(position, reason)
+      )
+    ) {
+      return;
     }
 
-    // Regular scoring
-    const scoreMap: { [key: number]: number } = { 0: 0, 1: 15, 2: 30, 3: 40 };
-    return [
-      p1Score <= 3 ? scoreMap[p1Score] : 40,
-      p2Score <= 3 ? scoreMap[p2Score] : 40,
-    ];
+    this.endEarly("retired", position, reason);
   }
 
   /**
-   * Checks if there's a game winner.
+   * Ends the match with a walkover before play starts.
+   *
+   * @param position - Position of the participant who withdrew
+   * @param reason - Reason for the withdrawal
+   * @throws {Error} If play has already started
    */
-  private checkGameWinner(): boolean {
-    if (this.tiebreak) {
-      const [p1Score, p2Score] = this.pointScores as [number, number];
-      return (p1Score >= 7 || p2Score >= 7) && Math.abs(p1Score - p2Score) >= 2;
-    } else {
-      const scores = this.getNumericPointScores();
-      const [p1Score, p2Score] = scores;
-      return (p1Score >= 4 || p2Score >= 4) && Math.abs(p1Score - p2Score) >= 2;
+  recordWalkover(position: ParticipantPosition, reason?: string): void {
+    if (
+      this.logInput({ type: "walkover", participant: position, reason }, () =>
+        this.recordWalkover(position, reason)
+      )
+    ) {
+      return;
     }
+
+    if (this.hasStarted()) {
+      throw new Error("A walkover can only be given before play starts");
+    }
+
+    this.endEarly("walkover", position, reason);
   }
 
   /**
-   * Gets numeric point scores from current point scores.
+   * Ends the match by defaulting a participant.
+   *
+   * @param position - Position of the participant who was defaulted
+   * @param reason - Reason for the default
    */
-  private getNumericPointScores(): [number, number] {
-    // Always count points in current game/tiebreak
-    let p1Points = 0;
-    let p2Points = 0;
-    for (const point of this.currentGamePoints) {
-      if (point.winner === 1) p1Points++;
-      else p2Points++;
+  recordDefault(position: ParticipantPosition, reason?: string): void {
+    if (
+      this.logInput({ type: "default", participant: position, reason }, () =>
+        this.recordDefault(position, reason)
+      )
+    ) {
+      return;
     }
-    return [p1Points, p2Points];
+
+    this.endEarly("defaulted", position, reason);
   }
 
   /**
-   * Completes the current game.
+   * Ends the match early, awarding it to the other participant.
    */
-  private completeGame(winner: ParticipantPosition): void {
-    // Record service game stats
-    const serverWon = winner === this.getServerPosition();
-    this.statsManager.recordServiceGame(this.currentServerId, serverWon);
+  private endEarly(
+    status: MatchEnding["status"],
+    position: ParticipantPosition,
+    reason?: string
+  ): void {
+    if (this.matchWinner) {
+      console.warn("Match is already complete");
+      return;
+    }
 
-    // Determine actual game winner based on who has more points
-    const scores = this.getNumericPointScores();
-    const actualWinner: ParticipantPosition = scores[0] > scores[1] ? 1 : 2;
+    this.ending = { status, participant: position, timestamp: this.now() };
+    if (reason) this.ending.reason = reason;
+    this.matchWinner = position === 1 ? 2 : 1;
+    this.pendingServe = [];
+    this.redoStack = [];
+    this.decidingPointChoice = undefined;
+    this.stopClock(this.ending.timestamp!);
+    this.emit("matchComplete", {
+      winner: this.matchWinner,
+      ending: this.ending,
+    });
+  }
 
-    // Create game summary
-    const game: GameSummary = {
-      winner: actualWinner,
-      server: this.currentServerId,
-      score: [...this.pointScores] as [number | string, number | string],
-      points: [...this.currentGamePoints],
-      deuce: this.currentGamePoints.some((p, i) => {
-        // Check if we had deuce at any point
-        let p1Points = 0;
-        let p2Points = 0;
-        for (let j = 0; j <= i; j++) {
-          if (this.currentGamePoints[j].winner === 1) p1Points++;
-          else p2Points++;
-        }
-        return p1Points >= 3 && p2Points >= 3 && p1Points === p2Points;
-      }),
-    };
+  /**
+   * Starts the match clock.
+   *
+   * The clock otherwise starts with the first serve. Set and match durations
+   * count playing time from here, leaving out suspensions.
+   *
+   * @param time - When play started (default: now)
+   * @throws {Error} If the clock has already started
+   *
+   * @example
+   * ```typescript
+   * match.startMatch();
+   * match.suspend("Rain");
+   * match.resume();
+   * ```
+   */
+  startMatch(time: Date = this.now()): void {
+    if (this.logInput({ type: "start", time }, () => this.startMatch(time))) {
+      return;
+    }
 
-    // Add game to current set
-    this.currentSetGames.push(game);
+    if (this.clock.startTime) {
+      throw new Error("The match clock has already started");
+    }
 
-    // Update game score
-    this.gameScores[actualWinner - 1]++;
+    this.clock.startTime = time;
+    this.clock.setStartTime = time;
+  }
 
-    // Store tiebreak score before resetting
-    const tiebreakScore = this.tiebreak
-      ? ([...this.pointScores] as [number, number])
-      : undefined;
+  /**
+   * Suspends play, e.g. for rain or bad light.
+   *
+   * No points can be scored until play resumes.
+   *
+   * @param reason - Why play was suspended
+   * @param time - When play stopped (default: now)
+   * @throws {Error} If the match has not started or is already suspended
+   */
+  suspend(reason?: string, time: Date = this.now()): void {
+    if (
+      this.logInput({ type: "suspend", reason, time }, () =>
+        this.suspend(reason, time)
+      )
+    ) {
+      return;
+    }
 
-    // Reset for next game
-    this.currentGamePoints = [];
-    this.pointScores = [0, 0];
-    this.currentGame++;
+    if (this.matchWinner) {
+      console.warn("Match is already complete");
+      return;
+    }
+    if (!this.clock.startTime) {
+      throw new Error("The match has not started");
+    }
+    if (this.isSuspended()) {
+      throw new Error("Play is already suspended");
+    }
 
-    // Check for set winner
-    if (this.checkSetWinner()) {
-      const setWinner = this.gameScores[0] > this.gameScores[1] ? 1 : 2;
-      this.completeSet(setWinner as ParticipantPosition, tiebreakScore);
-    } else {
-      // Check for tiebreak
-      if (this.gameScores[0] === 6 && this.gameScores[1] === 6) {
-        this.tiebreak = true;
-        this.pointScores = [0, 0];
-      }
+    const suspension: Suspension = {
+      start: time,
+      pointIndex: this.countPointsPlayed(),
+    };
+    if (reason) suspension.reason = reason;
+    this.clock.suspensions.push(suspension);
+  }
 
-      // Rotate server for next game
-      this.rotateServer();
+  /**
+   * Resumes play after a suspension.
+   *
+   * @param time - When play resumed (default: now)
+   * @throws {Error} If play is not suspended
+   */
+  resume(time: Date = this.now()): void {
+    if (this.logInput({ type: "resume", time }, () => this.resume(time))) {
+      return;
+    }
+
+    if (!this.isSuspended()) {
+      throw new Error("Play is not suspended");
     }
+
+    this.clock.suspensions[this.clock.suspensions.length - 1].end = time;
   }
 
   /**
-   * Checks if the current state (before point scored) is a break point.
+   * Records when the match ended.
+   *
+   * The end time is otherwise taken when the match is won or ends early;
+   * use this to correct it.
+   *
+   * @param time - When the match ended (default: now)
+   * @throws {Error} If the match has not started
    */
-  private checkBreakPoint(): boolean {
-    if (this.tiebreak) return false;
+  endMatch(time: Date = this.now()): void {
+    if (this.logInput({ type: "end", time }, () => this.endMatch(time))) {
+      return;
+    }
 
-    const scores = this.getNumericPointScores(); // [p1, p2]
-    const serverPos = this.getServerPosition();
-    const serverIndex = serverPos - 1;
-    const receiverIndex = serverPos === 1 ? 1 : 0;
+    if (!this.clock.startTime) {
+      throw new Error("The match has not started");
+    }
+
+    this.clock.endTime = undefined;
+    this.stopClock(time);
+  }
+
+  /**
+   * Records an event that stops play without changing the score.
+   *
+   * Events are kept in order and anchored to the number of points played
+   * so far, so they can be shown alongside the points.
+   *
+   * @param type - Type of event
+   * @param options - The participant (and player, in doubles) it concerns,
+   *   how long it lasted in milliseconds, a note and when it happened
+   * @returns The recorded event
+   * @throws {Error} If the player is not on the given side
+   *
+   * @example
+   * ```typescript
+   * match.recordEvent("medicalTimeout", {
+   *   participant: 2,
+   *   duration: 3 * 60 * 1000,
+   *   note: "Left ankle",
+   * });
+   * match.recordEvent("ballChange");
+   * ```
+   */
+  recordEvent(
+    type: MatchEventType,
+    options: MatchEventOptions = {}
+  ): MatchEvent {
+    const logged = this.logInput({ type: "event", event: type, options }, () =>
+      this.recordEvent(type, options)
+    );
+    if (logged) return logged.result;
+
+    if (
+      options.playerId &&
+      (!options.participant ||
+        !getPlayerIds(this.participants[options.participant]).includes(
+          options.playerId
+        ))
+    ) {
+      throw new Error(
+        `Player ${options.playerId} is not on the given participant's side`
+      );
+    }
+    if (options.duration !== undefined && options.duration < 0) {
+      throw new Error("Event duration cannot be negative");
+    }
+
+    const event: MatchEvent = {
+      type,
+      pointIndex: this.countPointsPlayed(),
+      timestamp: options.timestamp || this.now(),
+    };
+    if (options.participant) event.participant = options.participant;
+    if (options.playerId) event.playerId = options.playerId;
+    if (options.duration !== undefined) event.duration = options.duration;
+    if (options.note) event.note = options.note;
+
+    this.events.push(event);
+    return event;
+  }
+
+  /**
+   * Records a line-call challenge.
+   *
+   * Each participant has a set number of unsuccessful challenges per set
+   * (3 unless the format says otherwise) and one more in a tiebreak;
+   * successful challenges are not used up. When a successful challenge
+   * overturns the call that decided the last point (or, for the serving
+   * side, a fault on the current point), the remedy corrects the score:
+   * "replay" undoes it so it is played again, and "award" undoes it and
+   * scores it for the challenger. Penalties cannot be overturned.
+   * A completed match only accepts a challenge with a remedy, against the
+   * match-winning point.
+   *
+   * @param position - Position of the challenging participant
+   * @param successful - Whether the call was overturned
+   * @param options - How to correct the score, the outcome for an awarded
+   *   point, and the challenging player in doubles
+   * @returns The recorded challenge
+   * @throws {Error} If the participant has no challenges left, or the remedy
+   *   cannot be applied
+   *
+   * @example
+   * ```typescript
+   * match.scorePoint(2); // Player 1's shot called out
+   * match.recordChallenge(1, true, { remedy: "award" }); // Ball was in
+   * ```
+   */
+  recordChallenge(
+    position: ParticipantPosition,
+    successful: boolean,
+    options: ChallengeOptions = {}
+  ): Challenge | undefined {
+    const logged = this.logInput(
+      { type: "challenge", participant: position, successful, options },
+      () => this.recordChallenge(position, successful, options)
+    );
+    if (logged) return logged.result;
+
+    // Once the match is won, only the call on the winning point can be
+    // overturned
+    if (this.matchWinner && (this.ending || !options.remedy)) {
+      console.warn("Match is already complete");
+      return undefined;
+    }
+
+    if (
+      options.playerId &&
+      !getPlayerIds(this.participants[position]).includes(options.playerId)
+    ) {
+      throw new Error(
+        `Player ${options.playerId} is not on the challenging side`
+      );
+    }
+    if (this.getChallengeStatistics(position).remaining === 0) {
+      throw new Error(`Participant ${position} has no challenges left`);
+    }
+    if (options.remedy) {
+      this.checkChallengeRemedy(position, successful, options);
+      // Undo the overturned call first, so the challenge is recorded
+      // against the point it belongs to. It can no longer be redone.
+      this.removePoint();
+      this.redoStack = [];
+    }
+
+    const challenge: Challenge = {
+      participant: position,
+      successful,
+      set: this.currentSet,
+      game: this.currentGame,
+      tiebreak: this.tiebreak,
+      pointIndex: this.countPointsPlayed(),
+      timestamp: this.now(),
+    };
+    if (options.playerId) challenge.playerId = options.playerId;
+    if (options.remedy) challenge.remedy = options.remedy;
+    this.challenges.push(challenge);
+
+    if (options.remedy === "award") {
+      this.scorePoint(position, options.outcome || PointOutcome.Regular);
+    }
+
+    return challenge;
+  }
+
+  /**
+   * Checks that a challenge remedy can be applied to the last call, before
+   * anything is undone.
+   *
+   * A fault on the current point can only be overturned by the serving side,
+   * and penalties are not line calls, so they cannot be overturned at all.
+   */
+  private checkChallengeRemedy(
+    position: ParticipantPosition,
+    successful: boolean,
+    options: ChallengeOptions
+  ): void {
+    if (!successful) {
+      throw new Error("Only a successful challenge can change the score");
+    }
+
+    let server: ParticipantPosition;
+    if (this.pendingServe.length > 0) {
+      server = this.getServerPosition();
+      if (position !== server) {
+        throw new Error("Only the server can overturn a fault call");
+      }
+    } else {
+      const lastPoint = this.getLastPoint();
+      if (
+        (this.currentGamePoints.length === 0 && this.getLastGame()?.penalty) ||
+        lastPoint?.outcome === PointOutcome.Penalty
+      ) {
+        throw new Error("A penalty cannot be overturned by a challenge");
+      }
+      if (!lastPoint) {
+        throw new Error("There is no call to overturn");
+      }
+      if (lastPoint.winner === position) {
+        throw new Error("The challenger won the last point");
+      }
+      server = getPlayerIds(this.participants[1]).includes(lastPoint.server)
+        ? 1
+        : 2;
+    }
+
+    if (options.remedy === "award") {
+      this.checkCanPlay();
+      this.checkAwardedOutcome(
+        options.outcome || PointOutcome.Regular,
+        position === server
+      );
+    }
+  }
+
+  /**
+   * Checks that the outcome of a point awarded on a challenge is one the
+   * challenger could have won it with.
+   */
+  private checkAwardedOutcome(
+    outcome: PointOutcome,
+    challengerServed: boolean
+  ): void {
+    const serverOutcomes = [PointOutcome.Ace, PointOutcome.ServiceWinner];
+    const receiverOutcomes = [
+      PointOutcome.DoubleFault,
+      PointOutcome.ReturnWinner,
+    ];
+
+    if (outcome === PointOutcome.Penalty) {
+      throw new Error("Penalty points are awarded with issueViolation");
+    }
+    if (
+      (challengerServed && receiverOutcomes.includes(outcome)) ||
+      (!challengerServed && serverOutcomes.includes(outcome))
+    ) {
+      throw new Error(
+        `The challenger cannot win the point with the outcome "${outcome}"`
+      );
+    }
+  }
+
+  /**
+   * Gets the most recently completed game.
+   */
+  private getLastGame(): GameSummary | undefined {
+    const games =
+      this.currentSetGames.length > 0
+        ? this.currentSetGames
+        : this.setHistory.length > 0
+          ? this.setHistory[this.setHistory.length - 1].games
+          : [];
+    return games[games.length - 1];
+  }
+
+  /**
+   * Gets the most recently played point.
+   */
+  private getLastPoint(): PointSummary | undefined {
+    if (this.currentGamePoints.length > 0) {
+      return this.currentGamePoints[this.currentGamePoints.length - 1];
+    }
+
+    const lastGame = this.getLastGame();
+    return lastGame ? lastGame.points[lastGame.points.length - 1] : undefined;
+  }
+
+  /**
+   * Gets challenge totals for a participant.
+   */
+  private getChallengeStatistics(
+    position: ParticipantPosition
+  ): ChallengeStatistics {
+    const made = this.challenges.filter(
+      (challenge) => challenge.participant === position
+    );
+    const failedThisSet = made.filter(
+      (challenge) => !challenge.successful && challenge.set === this.currentSet
+    ).length;
+    const allowance = getChallengeAllowance(this.config.format, this.tiebreak);
+
+    return {
+      made: made.length,
+      successful: made.filter((challenge) => challenge.successful).length,
+      remaining: Math.max(allowance - failedThisSet, 0),
+    };
+  }
+
+  /**
+   * Counts the points played in the match so far.
+   */
+  private countPointsPlayed(): number {
+    const countGames = (games: GameSummary[]) =>
+      games.reduce((total, game) => total + game.points.length, 0);
+
+    return (
+      this.setHistory.reduce((total, set) => total + countGames(set.games), 0) +
+      countGames(this.currentSetGames) +
+      this.currentGamePoints.length
+    );
+  }
+
+  /**
+   * Checks whether play is suspended.
+   */
+  isSuspended(): boolean {
+    const last = this.clock.suspensions[this.clock.suspensions.length - 1];
+    return last !== undefined && last.end === undefined;
+  }
+
+  /**
+   * Checks that a point can be played.
+   */
+  private checkCanPlay(): void {
+    if (this.config.firstServer === "toss" && !this.toss) {
+      throw new Error("The coin toss must be recorded before the first point");
+    }
+    if (this.isSuspended()) {
+      throw new Error("Play is suspended");
+    }
+  }
+
+  /**
+   * Starts the clock with the first serve when startMatch was not called.
+   */
+  private startClockIfNeeded(time: Date): void {
+    if (!this.clock.startTime) {
+      this.clock.startTime = time;
+      this.clock.setStartTime = time;
+    }
+  }
+
+  /**
+   * Stops the clock, closing any open suspension.
+   */
+  private stopClock(time: Date): void {
+    if (!this.clock.startTime || this.clock.endTime) return;
+
+    if (this.isSuspended()) {
+      this.clock.suspensions[this.clock.suspensions.length - 1].end = time;
+    }
+    this.clock.endTime = time;
+  }
+
+  /**
+   * Gets the playing time between two times, leaving out suspensions.
+   */
+  private getPlayingTime(from: Date, to: Date): number {
+    let elapsed = to.getTime() - from.getTime();
+    for (const suspension of this.clock.suspensions) {
+      const start = Math.max(suspension.start.getTime(), from.getTime());
+      const end = Math.min((suspension.end || to).getTime(), to.getTime());
+      if (end > start) elapsed -= end - start;
+    }
+    return elapsed;
+  }
+
+  /**
+   * Removes the most recent violation that carried the given penalty.
+   */
+  private removeLastViolation(penalty: PenaltyType): void {
+    for (let i = this.violations.length - 1; i >= 0; i--) {
+      if (this.violations[i].penalty === penalty) {
+        this.violations.splice(i, 1);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Records the result of the coin toss and sets the first server.
+   *
+   * A toss winner choosing to serve or receive decides the first server
+   * directly. When the winner chooses a side or defers, the first server is
+   * the choice made by the other side and must be passed in `options`.
+   * In doubles, each team may also name which player serves first.
+   *
+   * @param winner - Position of the participant who won the toss
+   * @param choice - What the toss winner chose
+   * @param options - First server when not decided by the choice, the
+   *   first server of each doubles team (default: player A), and the end
+   *   each participant starts at (default: participant 1 at the near end)
+   * @throws Error if points have already been played or the options
+   *   contradict the choice
+   *
+   * @example
+   * ```typescript
+   * match.recordToss(2, "receive");
+   * match.recordToss(1, "side", { firstServer: 2 });
+   * doubles.recordToss(1, "serve", { firstServers: { 1: "b", 2: "a" } });
+   * match.recordToss(2, "serve", { ends: { 1: "far", 2: "near" } });
+   * ```
+   */
+  recordToss(
+    winner: ParticipantPosition,
+    choice: TossChoice,
+    options: TossOptions = {}
+  ): void {
+    if (
+      this.logInput({ type: "toss", winner, choice, options }, () =>
+        this.recordToss(winner, choice, options)
+      )
+    ) {
+      return;
+    }
+
+    if (this.hasStarted()) {
+      throw new Error("The coin toss must be recorded before the first point");
+    }
+
+    const loser: ParticipantPosition = winner === 1 ? 2 : 1;
+    let firstServer = options.firstServer;
+
+    if (choice === "serve" || choice === "receive") {
+      const chosen = choice === "serve" ? winner : loser;
+      if (firstServer !== undefined && firstServer !== chosen) {
+        throw new Error(`First server contradicts the "${choice}" choice`);
+      }
+      firstServer = chosen;
+    } else if (firstServer === undefined) {
+      throw new Error(`A "${choice}" choice requires the first server`);
+    }
+
+    if (options.ends && options.ends[1] === options.ends[2]) {
+      throw new Error("Participants must start at opposite ends");
+    }
+
+    this.toss = { winner, choice, firstServer };
+    if (options.firstServers && this.config.matchType !== "singles") {
+      this.toss.firstServers = options.firstServers;
+    }
+    if (options.ends) {
+      this.toss.ends = options.ends;
+    }
+
+    this.setFirstServer(firstServer, this.toss.firstServers);
+  }
+
+  /**
+   * Sets which partner serves first for each doubles team in the coming set.
+   *
+   * May only be used before the first point of a set. The team due to serve
+   * first is unchanged; only the order of partners within each team changes.
+   * A team that is left out keeps its current order.
+   *
+   * @param firstServers - Player position serving first for each team
+   * @throws Error for singles matches, or once the set is under way
+   *
+   * @example
+   * ```typescript
+   * // Between sets: team 1's player B and team 2's player A serve first
+   * match.setServingOrder({ 1: "b", 2: "a" });
+   * ```
+   */
+  setServingOrder(firstServers: {
+    1?: TeamPlayerPosition;
+    2?: TeamPlayerPosition;
+  }): void {
+    if (
+      this.logInput({ type: "servingOrder", firstServers }, () =>
+        this.setServingOrder(firstServers)
+      )
+    ) {
+      return;
+    }
+
+    const team1 = this.participants[1];
+    const team2 = this.participants[2];
+    if (!isDoublesTeam(team1) || !isDoublesTeam(team2)) {
+      throw new Error("Serving order can only be set in doubles");
+    }
+    if (this.matchWinner) {
+      throw new Error("Match is already complete");
+    }
+    if (this.currentSetGames.length > 0 || this.currentGamePoints.length > 0) {
+      throw new Error("Serving order can only be changed between sets");
+    }
+
+    // Teams keep their current order unless a new first server is chosen
+    const servingTeam = this.getServerPosition();
+    const receivingTeam: ParticipantPosition = servingTeam === 1 ? 2 : 1;
+    const nextReceivingServer = getNextServer(
+      this.servingRotation!,
+      this.currentServerId
+    );
+    const current = {
+      [servingTeam]: this.getTeamPlayerPosition(this.currentServerId),
+      [receivingTeam]: this.getTeamPlayerPosition(nextReceivingServer),
+    } as { 1: TeamPlayerPosition; 2: TeamPlayerPosition };
+
+    this.servingRotation = createServingRotation(
+      team1,
+      team2,
+      {
+        team: servingTeam,
+        player: firstServers[servingTeam] ?? current[servingTeam],
+      },
+      firstServers[receivingTeam] ?? current[receivingTeam]
+    );
+    this.currentServerId = this.servingRotation[0];
+  }
+
+  /**
+   * Gets the position of a doubles player within their team.
+   */
+  private getTeamPlayerPosition(playerId: string): TeamPlayerPosition {
+    for (const position of [1, 2] as const) {
+      const team = this.participants[position];
+      if (isDoublesTeam(team) && team.players.b.id === playerId) {
+        return "b";
+      }
+    }
+    return "a";
+  }
+
+  /**
+   * Checks whether any points have been played.
+   */
+  private hasStarted(): boolean {
+    return (
+      this.setHistory.length > 0 ||
+      this.currentSetGames.length > 0 ||
+      this.currentGamePoints.length > 0
+    );
+  }
+
+  /**
+   * Records a serve fault on the current point.
+   *
+   * After one fault the point is played on a second serve; a second fault
+   * scores the point for the receiver as a double fault.
+   *
+   * @example
+   * ```typescript
+   * match.recordFault(); // Second serve
+   * match.recordFault(); // Double fault, point to the receiver
+   * ```
+   */
+  recordFault(): void {
+    if (this.logInput({ type: "fault" }, () => this.recordFault())) {
+      return;
+    }
+
+    if (this.matchWinner) {
+      console.warn("Match is already complete");
+      return;
+    }
+
+    this.checkCanPlay();
+    this.startClockIfNeeded(this.now());
+
+    this.pendingServe.push("fault");
+    this.redoStack = [];
+
+    if (this.countPendingServes("fault") === 2) {
+      const receiver: ParticipantPosition =
+        this.getServerPosition() === 1 ? 2 : 1;
+      this.scorePoint(receiver, PointOutcome.DoubleFault);
+      return;
+    }
+  }
+
+  /**
+   * Records a let on the current serve, which is then replayed.
+   *
+   * @example
+   * ```typescript
+   * match.recordLet();
+   * ```
+   */
+  recordLet(): void {
+    if (this.logInput({ type: "let" }, () => this.recordLet())) {
+      return;
+    }
+
+    if (this.matchWinner) {
+      console.warn("Match is already complete");
+      return;
+    }
+
+    this.checkCanPlay();
+    this.startClockIfNeeded(this.now());
+
+    this.pendingServe.push("let");
+    this.redoStack = [];
+  }
+
+  /**
+   * Validates rally information passed with a point.
+   */
+  private validateRally(rally: RallyInfo): void {
+    if (!Number.isInteger(rally.shots) || rally.shots < 1) {
+      throw new Error("Rally shots must be a positive whole number");
+    }
+    if (rally.duration !== undefined && rally.duration < 0) {
+      throw new Error("Rally duration cannot be negative");
+    }
+    const playerIds = [
+      ...getPlayerIds(this.participants[1]),
+      ...getPlayerIds(this.participants[2]),
+    ];
+    for (const id of rally.approaches || []) {
+      if (!playerIds.includes(id)) {
+        throw new Error(`Unknown player in rally approaches: ${id}`);
+      }
+    }
+  }
+
+  /**
+   * Validates the final shot passed with a point.
+   */
+  private validateShot(shot: ShotInfo, outcome: PointOutcome): void {
+    if (!Object.values(Stroke).includes(shot.stroke)) {
+      throw new Error(`Unknown stroke: ${shot.stroke}`);
+    }
+    if (
+      shot.error &&
+      outcome !== PointOutcome.UnforcedError &&
+      outcome !== PointOutcome.ForcedError
+    ) {
+      throw new Error("An error type can only be recorded for an error");
+    }
+  }
+
+  /**
+   * Validates the serve placement passed with a point.
+   */
+  private validatePlacement(
+    placement: ServePlacement,
+    outcome: PointOutcome
+  ): void {
+    if (!["wide", "body", "T"].includes(placement)) {
+      throw new Error(`Unknown serve placement: ${placement}`);
+    }
+    if (outcome === PointOutcome.DoubleFault) {
+      throw new Error("A double fault has no serve placement");
+    }
+  }
+
+  /**
+   * Gets the court the next serve is hit to.
+   *
+   * Serves alternate between the deuce and ad courts from the first point of
+   * each game or tiebreak; on a no-ad deciding point the receivers choose.
+   */
+  private getServeCourt(): CourtSide {
+    if (this.isDecidingPoint()) {
+      return this.decidingPointChoice
+        ? this.decidingPointChoice.court
+        : "deuce";
+    }
+    return this.currentGamePoints.length % 2 === 0 ? "deuce" : "ad";
+  }
+
+  /**
+   * Counts faults or lets recorded on the current point so far.
+   */
+  private countPendingServes(type: ServeEvent): number {
+    return this.pendingServe.filter((event) => event === type).length;
+  }
+
+  /**
+   * Checks whether the next point is a no-ad deciding point (40-40).
+   *
+   * @returns True if no-ad scoring is enabled and the game is at 40-40
+   */
+  isDecidingPoint(): boolean {
+    if (this.tiebreak || !this.config.format.noAdScoring) return false;
+
+    const [p1Score, p2Score] = this.getNumericPointScores();
+    return p1Score === 3 && p2Score === 3;
+  }
+
+  /**
+   * Records the receiving side's choice for the upcoming no-ad deciding point.
+   *
+   * The choice is stored on the deciding point's summary. If no choice is
+   * recorded, the point is assumed to be served to the deuce court.
+   *
+   * @param court - Court the receiving side chose to receive in
+   * @param receiverId - For doubles: ID of the player who will receive
+   * @throws Error if the next point is not a deciding point
+   *
+   * @example
+   * ```typescript
+   * if (match.isDecidingPoint()) {
+   *   match.chooseDecidingPointReceiver("ad");
+   * }
+   * ```
+   */
+  chooseDecidingPointReceiver(court: CourtSide, receiverId?: string): void {
+    if (
+      this.logInput({ type: "decidingPointChoice", court, receiverId }, () =>
+        this.chooseDecidingPointReceiver(court, receiverId)
+      )
+    ) {
+      return;
+    }
+
+    if (!this.isDecidingPoint()) {
+      throw new Error("The next point is not a deciding point");
+    }
+
+    const receiverPos: ParticipantPosition =
+      this.getServerPosition() === 1 ? 2 : 1;
+    if (
+      receiverId &&
+      !getPlayerIds(this.participants[receiverPos]).includes(receiverId)
+    ) {
+      throw new Error(`Player ${receiverId} is not on the receiving side`);
+    }
+
+    this.decidingPointChoice = receiverId ? { court, receiverId } : { court };
+  }
+
+  /**
+   * Updates the point score within a game or tiebreak.
+   */
+  private updatePointScore(winner: ParticipantPosition): void {
+    const loser: ParticipantPosition = winner === 1 ? 2 : 1;
+
+    if (this.tiebreak) {
+      // Tiebreak scoring - count the points from currentGamePoints
+      const numericScores = this.getNumericPointScores();
+      this.pointScores = numericScores;
+
+      // Update server in tiebreak (changes every 2 points after first point)
+      const totalPoints = numericScores[0] + numericScores[1];
+      if (totalPoints === 1 || (totalPoints > 1 && totalPoints % 2 === 1)) {
+        this.rotateServer();
+      }
+    } else {
+      // Regular game scoring - count points from currentGamePoints and convert
+      const numericScores = this.getNumericPointScores();
+      this.pointScores = this.convertToTennisScore(numericScores);
+    }
+  }
+
+  /**
+   * Converts numeric scores to tennis scoring (0, 15, 30, 40, deuce, advantage).
+   */
+  private convertToTennisScore(
+    scores: [number, number]
+  ): [number | string, number | string] {
+    const [p1Score, p2Score] = scores;
+
+    // No-ad: 40-40 is followed by a single deciding point
+    if (this.config.format.noAdScoring && p1Score === 3 && p2Score === 3) {
+      return [40, 40];
+    }
+
+    // Both at 3+ points
+    if (p1Score >= 3 && p2Score >= 3) {
+      if (p1Score === p2Score) {
+        return ["DEUCE", "DEUCE"];
+      } else if (p1Score > p2Score) {
+        const serverIs1 = this.getServerPosition() === 1;
+        return [serverIs1 ? "AD IN" : "AD OUT", "-"];
+      } else {
+        const serverIs2 = this.getServerPosition() === 2;
+        return ["-", serverIs2 ? "AD IN" : "AD OUT"];
+      }
+    }
+
+    // Regular scoring
+    const scoreMap: { [key: number]: number } = { 0: 0, 1: 15, 2: 30, 3: 40 };
+    return [
+      p1Score <= 3 ? scoreMap[p1Score] : 40,
+      p2Score <= 3 ? scoreMap[p2Score] : 40,
+    ];
+  }
+
+  /**
+   * Checks if there's a game winner.
+   */
+  private checkGameWinner(): boolean {
+    if (this.tiebreak) {
+      const [p1Score, p2Score] = this.pointScores as [number, number];
+      const { tiebreakPoints } = this.getCurrentSetFormat();
+      return (
+        (p1Score >= tiebreakPoints || p2Score >= tiebreakPoints) &&
+        Math.abs(p1Score - p2Score) >= 2
+      );
+    } else {
+      const scores = this.getNumericPointScores();
+      const [p1Score, p2Score] = scores;
+      const margin = this.config.format.noAdScoring ? 1 : 2;
+      return (
+        (p1Score >= 4 || p2Score >= 4) && Math.abs(p1Score - p2Score) >= margin
+      );
+    }
+  }
+
+  /**
+   * Gets numeric point scores from current point scores.
+   */
+  private getNumericPointScores(): [number, number] {
+    // Always count points in current game/tiebreak
+    let p1Points = 0;
+    let p2Points = 0;
+    for (const point of this.currentGamePoints) {
+      if (point.winner === 1) p1Points++;
+      else p2Points++;
+    }
+    return [p1Points, p2Points];
+  }
+
+  /**
+   * Completes the current game at the given time.
+   */
+  private completeGame(
+    winner: ParticipantPosition,
+    penalty: boolean = false,
+    time: Date = this.now()
+  ): void {
+    // Record service game stats (a penalty game is not a service game)
+    const serverWon = winner === this.getServerPosition();
+    if (!penalty) {
+      this.statsManager.recordServiceGame(this.currentServerId, serverWon);
+    }
+
+    // Determine actual game winner based on who has more points
+    // (a game penalty awards the game whatever the score)
+    const scores = this.getNumericPointScores();
+    const actualWinner: ParticipantPosition = penalty
+      ? winner
+      : scores[0] > scores[1]
+        ? 1
+        : 2;
+
+    // Create game summary
+    // The server changes during a tiebreak, so record who served first
+    const game: GameSummary = {
+      winner: actualWinner,
+      server:
+        this.currentGamePoints.length > 0
+          ? this.currentGamePoints[0].server
+          : this.currentServerId,
+      score: [...this.pointScores] as [number | string, number | string],
+      points: [...this.currentGamePoints],
+      deuce: this.currentGamePoints.some((p, i) => {
+        // Check if we had deuce at any point
+        let p1Points = 0;
+        let p2Points = 0;
+        for (let j = 0; j <= i; j++) {
+          if (this.currentGamePoints[j].winner === 1) p1Points++;
+          else p2Points++;
+        }
+        return p1Points >= 3 && p2Points >= 3 && p1Points === p2Points;
+      }),
+    };
+
+    if (penalty) {
+      game.penalty = true;
+    }
+
+    // Add game to current set
+    this.currentSetGames.push(game);
+
+    // Ends change after odd games; the first game of a set has no rest.
+    // A game that ends the set is marked as a set break in completeSet.
+    const gameNumber = this.currentSetGames.length;
+    if (gameNumber % 2 === 1) {
+      game.changeover = {
+        type: gameNumber === 1 ? "end-change" : "changeover",
+        changeEnds: true,
+      };
+    }
+
+    // Update game score
+    this.gameScores[actualWinner - 1]++;
+    this.emit("game", { game, set: this.currentSet });
+    if (!this.tiebreak && !penalty && !serverWon) {
+      this.emit("break", { game, set: this.currentSet });
+    }
+
+    // Store tiebreak score before resetting
+    const tiebreakScore = this.tiebreak
+      ? ([...this.pointScores] as [number, number])
+      : undefined;
+
+    // Reset for next game
+    this.currentGamePoints = [];
+    this.pointScores = [0, 0];
+    this.currentGame++;
+
+    // Check for set winner
+    if (this.checkSetWinner()) {
+      const setWinner = this.gameScores[0] > this.gameScores[1] ? 1 : 2;
+      this.completeSet(setWinner as ParticipantPosition, tiebreakScore, time);
+    } else {
+      // Check for tiebreak
+      if (this.isTiebreakScore()) {
+        this.tiebreak = true;
+        this.pointScores = [0, 0];
+      }
+
+      // Rotate server for next game
+      this.rotateServer();
+    }
+
+    // The set may have turned the changeover into a set break, or removed it
+    if (game.changeover) {
+      this.emit("changeover", { changeover: game.changeover, game });
+    }
+    if (this.tiebreak && !this.matchWinner) {
+      this.emit("tiebreakStart", {
+        set: this.currentSet,
+        matchTiebreak: !!this.getCurrentSetFormat().matchTiebreak,
+      });
+    }
+  }
+
+  /**
+   * Checks if the current state (before point scored) is a break point.
+   */
+  private checkBreakPoint(): boolean {
+    if (this.tiebreak) return false;
+
+    const scores = this.getNumericPointScores(); // [p1, p2]
+    const serverPos = this.getServerPosition();
+    const serverIndex = serverPos - 1;
+    const receiverIndex = serverPos === 1 ? 1 : 0;
 
     const serverScore = scores[serverIndex];
     const receiverScore = scores[receiverIndex];
@@ -404,6 +1739,8 @@ export class TennisMatch {
     if (receiverScore >= 3 && receiverScore > serverScore) return true;
 
     // Note: If 3-3 (Deuce), next point is Advantage, not Game. So not BP.
+    // With no-ad scoring, however, the deciding point at 3-3 is a BP.
+    if (this.isDecidingPoint()) return true;
 
     return false;
   }
@@ -414,18 +1751,35 @@ export class TennisMatch {
   private checkSetWinner(): boolean {
     const [p1Games, p2Games] = this.gameScores;
 
-    // Win by 2 games with at least 6 games
-    if (p1Games >= 6 || p2Games >= 6) {
-      const diff = Math.abs(p1Games - p2Games);
-      if (diff >= 2) return true;
+    // Tiebreak winner takes the set
+    if (this.tiebreak) return true;
 
-      // Tiebreak winner
-      if (this.tiebreak && (p1Games === 7 || p2Games === 7)) {
-        return true;
-      }
+    // Win by 2 games with at least the set's game target
+    const { gamesToWin } = this.getCurrentSetFormat();
+    if (p1Games >= gamesToWin || p2Games >= gamesToWin) {
+      return Math.abs(p1Games - p2Games) >= 2;
     }
 
-    return false;
+    return false;
+  }
+
+  /**
+   * Gets the scoring rules for the current set.
+   */
+  private getCurrentSetFormat(): SetFormat {
+    return getSetFormat(this.config.format, this.currentSet);
+  }
+
+  /**
+   * Checks whether the current game score calls for a tiebreak.
+   */
+  private isTiebreakScore(): boolean {
+    const { tiebreakAt } = this.getCurrentSetFormat();
+    return (
+      tiebreakAt !== null &&
+      this.gameScores[0] === tiebreakAt &&
+      this.gameScores[1] === tiebreakAt
+    );
   }
 
   /**
@@ -433,7 +1787,8 @@ export class TennisMatch {
    */
   private completeSet(
     winner: ParticipantPosition,
-    tiebreakScore?: [number, number]
+    tiebreakScore: [number, number] | undefined,
+    time: Date
   ): void {
     // Create set summary
     const setSummary: SetSummary = {
@@ -443,155 +1798,801 @@ export class TennisMatch {
     };
 
     if (this.tiebreak && tiebreakScore) {
+      // The tiebreak is always the last game of the set
+      const tiebreakGame =
+        this.currentSetGames[this.currentSetGames.length - 1];
       setSummary.tiebreak = {
         winner,
         score: tiebreakScore,
-        points: [...this.currentGamePoints],
+        points: [...tiebreakGame.points],
         miniBreaks: [], // Could track mini-breaks if needed
       };
     }
 
+    if (this.getCurrentSetFormat().matchTiebreak) {
+      setSummary.matchTiebreak = true;
+    }
+
+    if (this.servingRotation) {
+      setSummary.servingOrder = [...this.servingRotation];
+    }
+
     // Add set to history
     this.setHistory.push(setSummary);
 
     // Update set score
     this.setScores[winner - 1]++;
 
+    // Time the set; the next set starts as this one ends
+    if (this.clock.setStartTime) {
+      setSummary.startTime = this.clock.setStartTime;
+      setSummary.endTime = time;
+      setSummary.duration = this.getPlayingTime(this.clock.setStartTime, time);
+      this.clock.setStartTime = time;
+    }
+
+    this.emit("set", { set: setSummary, setNumber: this.currentSet });
+
     // Check for match winner
     if (this.checkMatchWinner()) {
       this.matchWinner = winner;
+      if (setSummary.endTime) this.stopClock(setSummary.endTime);
+      this.emit("matchComplete", { winner });
+    }
+
+    // Set break before the next set; ends change only after an odd set total
+    const lastGame = this.currentSetGames[this.currentSetGames.length - 1];
+    if (this.matchWinner) {
+      delete lastGame.changeover;
+    } else {
+      lastGame.changeover = {
+        type: "set-break",
+        changeEnds: this.currentSetGames.length % 2 === 1,
+      };
     }
 
     // Reset for next set
+    this.currentSet++;
+    this.currentGame = 1;
+    this.currentSetGames = [];
+    this.currentGamePoints = [];
+    this.gameScores = [0, 0];
+    this.pointScores = [0, 0];
+
+    // A match tiebreak starts straight away
+    this.tiebreak = this.isTiebreakScore();
+
+    // The player or team who received first in a tiebreak serves first in
+    // the new set, otherwise serving simply continues in rotation
+    // (a tiebreak decided by a game penalty may have no points)
+    if (setSummary.tiebreak) {
+      this.currentServerId = lastGame.server;
+    }
+    this.rotateServer();
+  }
+
+  /**
+   * Gets the end each participant is currently playing from.
+   *
+   * Derived from the end changes recorded on games and tiebreak points.
+   */
+  private getEnds(): { 1: CourtEnd; 2: CourtEnd } {
+    const games = [...this.currentSetGames];
+    for (const set of this.setHistory) {
+      games.push(...set.games);
+    }
+
+    let changes = 0;
+    for (const game of games) {
+      if (game.changeover?.changeEnds) changes++;
+      for (const point of game.points) {
+        if (point.changeover?.changeEnds) changes++;
+      }
+    }
+    for (const point of this.currentGamePoints) {
+      if (point.changeover?.changeEnds) changes++;
+    }
+
+    const start = this.toss?.ends || { 1: "near", 2: "far" };
+    return changes % 2 === 0 ? start : { 1: start[2], 2: start[1] };
+  }
+
+  /**
+   * Gets the break due before the next point, if any.
+   */
+  private getPendingChangeover(): Changeover | undefined {
+    if (this.matchWinner) return undefined;
+
+    if (this.currentGamePoints.length > 0) {
+      return this.currentGamePoints[this.currentGamePoints.length - 1]
+        .changeover;
+    }
+
+    const games =
+      this.currentSetGames.length > 0
+        ? this.currentSetGames
+        : this.setHistory[this.setHistory.length - 1]?.games || [];
+    return games[games.length - 1]?.changeover;
+  }
+
+  /**
+   * Checks if there's a match winner.
+   */
+  private checkMatchWinner(): boolean {
+    const setsToWin = Math.ceil(this.config.format.sets / 2);
+    return this.setScores[0] >= setsToWin || this.setScores[1] >= setsToWin;
+  }
+
+  /**
+   * Rotates the server.
+   */
+  private rotateServer(): void {
+    if (this.config.matchType === "singles") {
+      // Singles: alternate between players
+      this.currentServerId =
+        this.currentServerId === this.participants[1].id
+          ? this.participants[2].id
+          : this.participants[1].id;
+    } else if (this.servingRotation) {
+      // Doubles: follow rotation
+      this.currentServerId = getNextServer(
+        this.servingRotation,
+        this.currentServerId
+      );
+    }
+  }
+
+  /**
+   * Sets which participant serves first, rebuilding the doubles rotation.
+   */
+  private setFirstServer(
+    position: ParticipantPosition,
+    firstServers?: { 1: TeamPlayerPosition; 2: TeamPlayerPosition }
+  ): void {
+    const team1 = this.participants[1];
+    const team2 = this.participants[2];
+
+    if (isDoublesTeam(team1) && isDoublesTeam(team2)) {
+      const other: ParticipantPosition = position === 1 ? 2 : 1;
+      this.servingRotation = createServingRotation(
+        team1,
+        team2,
+        { team: position, player: firstServers?.[position] ?? "a" },
+        firstServers?.[other] ?? "a"
+      );
+      this.currentServerId = this.servingRotation[0];
+    } else {
+      this.currentServerId = this.participants[position].id;
+    }
+  }
+
+  /**
+   * Gets the position of the current server.
+   */
+  private getServerPosition(): ParticipantPosition {
+    if (this.currentServerId === this.participants[1].id) return 1;
+    if (this.currentServerId === this.participants[2].id) return 2;
+
+    // For doubles, check team members
+    if (isDoublesTeam(this.participants[1])) {
+      const team1 = this.participants[1];
+      if (
+        team1.players.a.id === this.currentServerId ||
+        team1.players.b.id === this.currentServerId
+      ) {
+        return 1;
+      }
+    }
+
+    return 2; // Default to team 2
+  }
+
+  /**
+   * Removes the last point scored, undoing the most recent score change.
+   *
+   * Handles undoing across game and set boundaries, restoring previous state.
+   * A fault or let recorded on the current point is undone first.
+   * Statistics are restored to exactly what they were before the point.
+   *
+   * @example
+   * ```typescript
+   * match.scorePoint(1);  // 15-0
+   * match.removePoint();  // Back to 0-0
+   * ```
+   */
+  removePoint(): void {
+    if (this.logInput({ type: "undo" }, () => this.removePoint())) {
+      return;
+    }
+
+    if (this.pendingServe.length > 0) {
+      this.pendingServe.pop();
+      return;
+    }
+
+    // Nothing can follow a retirement, walkover or default, so undo it first
+    if (this.ending) {
+      const lastViolation = this.violations[this.violations.length - 1];
+      if (lastViolation?.penalty === "default") {
+        this.violations.pop();
+      }
+      this.ending = undefined;
+      this.matchWinner = undefined;
+      this.clock.endTime = undefined;
+      return;
+    }
+
+    if (this.currentGamePoints.length === 0) {
+      // Need to restore previous game
+      if (this.currentSetGames.length > 0) {
+        const lastGame = this.currentSetGames.pop()!;
+        this.currentGamePoints = lastGame.points;
+        this.gameScores[lastGame.winner - 1]--;
+        this.currentGame--;
+
+        // The restored game was a tiebreak only if it was played at tiebreakAt-all
+        this.tiebreak = this.isTiebreakScore();
+
+        if (lastGame.penalty) {
+          // A game penalty ended the game: keep its points and restore the
+          // server who was due to serve next
+          this.removeLastViolation("game");
+          this.redoStack = [];
+          const lastPoint =
+            this.currentGamePoints[this.currentGamePoints.length - 1];
+          this.currentServerId = lastPoint ? lastPoint.server : lastGame.server;
+          if (this.tiebreak && this.currentGamePoints.length % 2 === 1) {
+            this.rotateServer();
+          }
+          this.recalculatePointScore();
+        } else {
+          // Restore point score and server from last point
+          const lastPoint = this.currentGamePoints.pop();
+          if (lastPoint) {
+            this.currentServerId = lastPoint.server;
+            this.recalculatePointScore();
+            if (lastPoint.outcome === PointOutcome.Penalty) {
+              this.removeLastViolation("point");
+            }
+            this.keepForRedo(lastPoint);
+          }
+        }
+      } else if (this.setHistory.length > 0) {
+        // Need to restore previous set
+        const lastSet = this.setHistory.pop()!;
+        this.currentSetGames = lastSet.games;
+        this.setScores[lastSet.winner - 1]--;
+        this.currentSet--;
+
+        // Restore game scores
+        this.gameScores = [...lastSet.score] as [number, number];
+
+        // Restore current game number
+        this.currentGame = this.currentSetGames.length + 1;
+
+        // Restore tiebreak status
+        if (lastSet.tiebreak) {
+          this.tiebreak = true;
+        }
+
+        // Restore the doubles serving order used in that set
+        if (lastSet.servingOrder) {
+          this.servingRotation = [...lastSet.servingOrder];
+        }
+
+        // Reopen the set on the clock
+        if (lastSet.startTime) {
+          this.clock.setStartTime = lastSet.startTime;
+        }
+
+        // Restore last game of previous set
+        if (this.currentSetGames.length > 0) {
+          this.removePoint(); // Recursive call to handle the game
+        }
+      }
+    } else {
+      // Remove last point from current game
+      const lastPoint = this.currentGamePoints.pop()!;
+
+      // Restore the server (it changes between points in a tiebreak)
+      this.currentServerId = lastPoint.server;
+
+      if (lastPoint.outcome === PointOutcome.Penalty) {
+        this.removeLastViolation("point");
+      }
+      this.keepForRedo(lastPoint);
+
+      // Recalculate point score
+      this.recalculatePointScore();
+    }
+
+    // Clear match winner, its end time and any pending deciding point choice
+    if (this.matchWinner) {
+      this.clock.endTime = undefined;
+    }
+    this.matchWinner = undefined;
+    this.decidingPointChoice = undefined;
+
+    // Restore the statistics from before the removed point. Without them
+    // (e.g. for a match restored from old data) rebuild them from the points
+    // left.
+    const pointCount = this.countPointsPlayed();
+    if (!this.statsHistory || this.statsHistory.length < pointCount) {
+      const replayed = this.replayEntries(this.getScoreEntries());
+      this.statsManager = replayed.statsManager;
+      this.statsHistory = replayed.statsHistory;
+    } else if (this.statsHistory.length > pointCount) {
+      this.statsManager.restore(this.statsHistory[pointCount]);
+      this.statsHistory.length = pointCount;
+    }
+  }
+
+  /**
+   * Gets every point of the match in the order played.
+   *
+   * Penalty points are included. A point's position in this list is the
+   * index used by editPoint, insertPoint and deletePoint.
+   *
+   * @returns All points of the match
+   */
+  getPointHistory(): PointSummary[] {
+    const points: PointSummary[] = [];
+    for (const game of this.getAllGames()) {
+      points.push(...game.points);
+    }
+    points.push(...this.currentGamePoints);
+    return points;
+  }
+
+  /**
+   * Corrects a point that has already been played.
+   *
+   * The match is replayed from the corrected point onwards, so scores,
+   * servers, set history and statistics end up exactly as if the corrected
+   * points had been scored from the start. Changes are merged into the point
+   * as it was recorded, e.g. a new winner keeps the original outcome.
+   *
+   * @param index - Index of the point in getPointHistory
+   * @param changes - Details of the point to change
+   * @throws {Error} If there is no point at the index, it is a penalty
+   *   point, or the corrected points would not make a valid match
+   *
+   * @example
+   * ```typescript
+   * // The third point was won by player 2, not player 1
+   * match.editPoint(2, { winner: 2, scorer: undefined });
+   * ```
+   */
+  editPoint(index: number, changes: Partial<PointInput>): void {
+    if (
+      this.logInput({ type: "edit", index, changes: { ...changes } }, () =>
+        this.editPoint(index, changes)
+      )
+    ) {
+      return;
+    }
+
+    const entries = this.getScoreEntries();
+    const position = this.findPointEntry(entries, index);
+    const entry = this.getEditableEntry(entries, position, index);
+
+    entries[position] = { ...entry, point: { ...entry.point, ...changes } };
+    this.replayScoreEntries(entries);
+  }
+
+  /**
+   * Inserts a point that was missed, before the point at the given index.
+   *
+   * The match is replayed from the new point onwards, as with editPoint.
+   * Events, violations and challenges recorded after the missed point move
+   * along by one point.
+   *
+   * @param index - Index the new point takes in getPointHistory; the number
+   *   of points played adds it at the end
+   * @param point - The missed point
+   * @throws {Error} If the index is out of range or the corrected points
+   *   would not make a valid match
+   *
+   * @example
+   * ```typescript
+   * // A point won by player 1 was missed before the fifth point
+   * match.insertPoint(4, { winner: 1 });
+   * ```
+   */
+  insertPoint(index: number, point: PointInput): void {
+    if (
+      this.logInput({ type: "insert", index, point: { ...point } }, () =>
+        this.insertPoint(index, point)
+      )
+    ) {
+      return;
+    }
+
+    const entries = this.getScoreEntries();
+    const pointCount = this.getPointHistory().length;
+    const position =
+      index === pointCount
+        ? entries.length
+        : this.findPointEntry(entries, index);
+    if (position < 0) {
+      throw new Error(`There is no point at index ${index}`);
+    }
+
+    entries.splice(position, 0, { point: { ...point } });
+    this.replayScoreEntries(entries, (pointIndex) =>
+      pointIndex > index ? pointIndex + 1 : pointIndex
+    );
+  }
+
+  /**
+   * Deletes a point that should not have been scored.
+   *
+   * The match is replayed without the point, as with editPoint. Events,
+   * violations and challenges recorded after the point move back by one
+   * point. Penalty points are removed with removePoint instead.
+   *
+   * @param index - Index of the point in getPointHistory
+   * @throws {Error} If there is no point at the index, it is a penalty
+   *   point, or the remaining points would not make a valid match
+   *
+   * @example
+   * ```typescript
+   * match.deletePoint(2);
+   * ```
+   */
+  deletePoint(index: number): void {
+    if (
+      this.logInput({ type: "delete", index }, () => this.deletePoint(index))
+    ) {
+      return;
+    }
+
+    const entries = this.getScoreEntries();
+    const position = this.findPointEntry(entries, index);
+    this.getEditableEntry(entries, position, index);
+
+    entries.splice(position, 1);
+    this.replayScoreEntries(entries, (pointIndex) =>
+      pointIndex > index ? pointIndex - 1 : pointIndex
+    );
+  }
+
+  /**
+   * Gets the completed games of the match in order.
+   */
+  private getAllGames(): GameSummary[] {
+    const games: GameSummary[] = [];
+    for (const set of this.setHistory) {
+      games.push(...set.games);
+    }
+    games.push(...this.currentSetGames);
+    return games;
+  }
+
+  /**
+   * Lists the points and penalty games of the match as they were scored.
+   *
+   * Penalty games take their time from the game violations, which are
+   * issued in the same order.
+   */
+  private getScoreEntries(): ScoreEntry[] {
+    const toEntry = (point: PointSummary): ScoreEntry =>
+      point.outcome === PointOutcome.Penalty
+        ? {
+            penaltyPoint: point.winner,
+            time: point.timestamp && new Date(point.timestamp),
+          }
+        : {
+            point: this.toPointInput(point),
+            decidingPoint: point.decidingPoint,
+          };
+    const gameViolations = this.violations.filter(
+      (violation) => violation.penalty === "game"
+    );
+
+    const entries: ScoreEntry[] = [];
+    let penaltyGames = 0;
+    for (const game of this.getAllGames()) {
+      entries.push(...game.points.map(toEntry));
+      if (game.penalty) {
+        const violation = gameViolations[penaltyGames++];
+        entries.push({
+          penaltyGame: game.winner,
+          time: violation?.timestamp && new Date(violation.timestamp),
+        });
+      }
+    }
+    entries.push(...this.currentGamePoints.map(toEntry));
+    return entries;
+  }
+
+  /**
+   * Gets the details needed to score a recorded point again.
+   */
+  private toPointInput(point: PointSummary): PointInput {
+    return {
+      winner: point.winner,
+      outcome: point.outcome,
+      scorer: point.scorer,
+      isFirstServe: point.isFirstServe,
+      fault: point.fault,
+      lets: point.lets,
+      placement: point.placement,
+      rally: point.rally,
+      shot: point.shot,
+      tags: point.tags,
+      timestamp: point.timestamp && new Date(point.timestamp),
+    };
+  }
 
-    // Reset for next set
-    this.currentSet++;
-    this.currentGame = 1;
-    this.currentSetGames = [];
-    this.currentGamePoints = [];
-    this.gameScores = [0, 0];
-    this.pointScores = [0, 0];
-    this.tiebreak = false;
+  /**
+   * Finds the position of the point with the given index among the entries,
+   * or -1 when there is no such point.
+   */
+  private findPointEntry(entries: ScoreEntry[], index: number): number {
+    let count = 0;
+    for (let i = 0; i < entries.length; i++) {
+      if ("penaltyGame" in entries[i]) continue;
+      if (count === index) return i;
+      count++;
+    }
+    return -1;
+  }
 
-    // Alternate who serves first in new set
-    this.rotateServer();
+  /**
+   * Gets the point entry at a position, checking that it may be changed.
+   */
+  private getEditableEntry(
+    entries: ScoreEntry[],
+    position: number,
+    index: number
+  ): { point: PointInput; decidingPoint?: DecidingPointChoice } {
+    const entry = entries[position];
+    if (!entry) {
+      throw new Error(`There is no point at index ${index}`);
+    }
+    if (!("point" in entry)) {
+      throw new Error("Penalty points cannot be edited");
+    }
+    return entry;
   }
 
   /**
-   * Checks if there's a match winner.
+   * Rescores the match from scratch with the given points and penalty games.
+   *
+   * The replay runs on a separate match, so nothing changes if it fails.
+   * Violations, events, challenges and any early ending are kept; the point
+   * indexes of those recorded between points can be moved, and violations
+   * and challenges take the set and game they now fall in.
    */
-  private checkMatchWinner(): boolean {
-    const setsToWin = Math.ceil(this.config.format.sets / 2);
-    return this.setScores[0] >= setsToWin || this.setScores[1] >= setsToWin;
+  private replayScoreEntries(
+    entries: ScoreEntry[],
+    movePointIndex: (pointIndex: number) => number = (pointIndex) => pointIndex
+  ): void {
+    const positions: GamePosition[] = [];
+    const replayed = this.replayEntries(entries, (match) =>
+      positions.push({
+        pointIndex: match.countPointsPlayed(),
+        set: match.currentSet,
+        game: match.currentGame,
+        tiebreak: match.tiebreak,
+      })
+    );
+    if (this.ending && replayed.matchWinner) {
+      throw new Error(
+        `The corrected points complete a match that was ${this.ending.status}`
+      );
+    }
+
+    for (const record of [
+      ...this.events,
+      ...this.violations,
+      ...this.challenges,
+      ...this.clock.suspensions,
+    ]) {
+      record.pointIndex = movePointIndex(record.pointIndex);
+    }
+    this.relocateRecords(positions);
+
+    this.currentSet = replayed.currentSet;
+    this.currentGame = replayed.currentGame;
+    this.setHistory = replayed.setHistory;
+    this.currentSetGames = replayed.currentSetGames;
+    this.currentGamePoints = replayed.currentGamePoints;
+    this.tiebreak = replayed.tiebreak;
+    this.servingRotation = replayed.servingRotation;
+    this.currentServerId = replayed.currentServerId;
+    this.setScores = replayed.setScores;
+    this.gameScores = replayed.gameScores;
+    this.pointScores = replayed.pointScores;
+    this.statsManager = replayed.statsManager;
+    this.statsHistory = replayed.statsHistory;
+    this.decidingPointChoice = undefined;
+    this.redoStack = [];
+    this.clock.startTime = replayed.clock.startTime;
+    this.clock.setStartTime = replayed.clock.setStartTime;
+    if (!this.ending) {
+      this.matchWinner = replayed.matchWinner;
+      this.clock.endTime = replayed.clock.endTime;
+    }
   }
 
   /**
-   * Rotates the server.
+   * Sets the set and game of each violation and challenge from where its
+   * point index falls among the replayed games.
+   *
+   * Several positions share a point index when a game penalty ends a game
+   * without a point; game violations are matched to them in order.
    */
-  private rotateServer(): void {
-    if (this.config.matchType === "singles") {
-      // Singles: alternate between players
-      this.currentServerId =
-        this.currentServerId === this.participants[1].id
-          ? this.participants[2].id
-          : this.participants[1].id;
-    } else if (this.servingRotation) {
-      // Doubles: follow rotation
-      this.currentServerId = getNextServer(
-        this.servingRotation,
-        this.currentServerId
+  private relocateRecords(positions: GamePosition[]): void {
+    const find = (pointIndex: number, nth: number): GamePosition => {
+      const matches = positions.filter(
+        (position) => position.pointIndex === pointIndex
       );
+      return (
+        matches[Math.min(nth, matches.length - 1)] ||
+        positions[positions.length - 1]
+      );
+    };
+
+    const gamePenalties = new Map<number, number>();
+    for (const violation of this.violations) {
+      const earlier = gamePenalties.get(violation.pointIndex) || 0;
+      const position = find(violation.pointIndex, earlier);
+      violation.set = position.set;
+      violation.game = position.game;
+      if (violation.penalty === "game") {
+        gamePenalties.set(violation.pointIndex, earlier + 1);
+      }
+    }
+
+    for (const challenge of this.challenges) {
+      const position = find(challenge.pointIndex, Infinity);
+      challenge.set = position.set;
+      challenge.game = position.game;
+      challenge.tiebreak = position.tiebreak;
     }
   }
 
   /**
-   * Gets the position of the current server.
+   * Scores the given points and penalty games on a new match with the same
+   * participants, format, toss and clock start.
+   *
+   * Doubles serving orders chosen between sets are applied again at the
+   * start of the same sets. onEntry sees the replayed match before each
+   * entry and once more at the end.
    */
-  private getServerPosition(): ParticipantPosition {
-    if (this.currentServerId === this.participants[1].id) return 1;
-    if (this.currentServerId === this.participants[2].id) return 2;
+  private replayEntries(
+    entries: ScoreEntry[],
+    onEntry?: (replayed: TennisMatch) => void
+  ): TennisMatch {
+    const games = this.getAllGames();
+    const servingOrders = this.setHistory.map((set) => set.servingOrder);
+    if (!this.matchWinner || this.ending) {
+      servingOrders.push(this.servingRotation);
+    }
 
-    // For doubles, check team members
-    if (isDoublesTeam(this.participants[1])) {
-      const team1 = this.participants[1];
+    const replayed = new TennisMatch(
+      this.participants[1].name,
+      this.participants[2].name,
+      this.config.format,
+      () => {}
+    );
+    replayed.config = this.config;
+    replayed.participants = this.participants;
+    replayed.inputs = undefined;
+    replayed.inputTime = this.inputTime;
+    replayed.statsManager = new StatisticsManager();
+    replayed.statsManager.initializeParticipants(this.participants);
+    replayed.toss = this.toss;
+    replayed.servingRotation = servingOrders[0] && [...servingOrders[0]];
+    replayed.currentServerId =
+      games[0]?.server ||
+      this.currentGamePoints[0]?.server ||
+      this.currentServerId;
+    replayed.clock = {
+      startTime: this.clock.startTime,
+      setStartTime: this.clock.startTime,
+      suspensions: this.clock.suspensions.filter(
+        (suspension) => suspension.end
+      ),
+    };
+
+    // Reapply a serving order that was changed before a set
+    const applyServingOrder = () => {
+      const set = replayed.currentSet;
+      const order = servingOrders[set - 1];
+      const previous = servingOrders[set - 2];
       if (
-        team1.players.a.id === this.currentServerId ||
-        team1.players.b.id === this.currentServerId
+        !order ||
+        !previous ||
+        order.join() === previous.join() ||
+        replayed.currentSetGames.length > 0 ||
+        replayed.currentGamePoints.length > 0
       ) {
-        return 1;
+        return;
+      }
+
+      const teamOf = (playerId: string): ParticipantPosition =>
+        getPlayerIds(this.participants[1]).includes(playerId) ? 1 : 2;
+      replayed.setServingOrder({
+        [teamOf(order[0])]: this.getTeamPlayerPosition(order[0]),
+        [teamOf(order[1])]: this.getTeamPlayerPosition(order[1]),
+      });
+    };
+
+    for (const entry of entries) {
+      if (replayed.matchWinner) {
+        throw new Error("The corrected points complete the match too early");
+      }
+      applyServingOrder();
+      onEntry?.(replayed);
+
+      if ("penaltyGame" in entry) {
+        replayed.completeGame(entry.penaltyGame, true, entry.time);
+      } else if ("penaltyPoint" in entry) {
+        replayed.awardPenaltyPoint(entry.penaltyPoint, entry.time);
+      } else {
+        replayed.decidingPointChoice = entry.decidingPoint;
+        replayed.scorePoint(entry.point);
       }
     }
+    if (!replayed.matchWinner) {
+      applyServingOrder();
+    }
+    onEntry?.(replayed);
 
-    return 2; // Default to team 2
+    return replayed;
   }
 
   /**
-   * Removes the last point scored, undoing the most recent score change.
+   * Scores the most recently undone point again.
    *
-   * Handles undoing across game and set boundaries, restoring previous state.
-   * Statistics are not currently restored when undoing points.
+   * The point keeps its original timestamp and details. Scoring a new point,
+   * a fault or let, a penalty or a correction clears the points that can be
+   * redone.
    *
    * @example
    * ```typescript
-   * match.scorePoint(1);  // 15-0
-   * match.removePoint();  // Back to 0-0
+   * match.removePoint(); // Tapped undo by mistake
+   * match.redoPoint(); // The point is back as it was
    * ```
    */
-  removePoint(): void {
-    if (this.currentGamePoints.length === 0) {
-      // Need to restore previous game
-      if (this.currentSetGames.length > 0) {
-        const lastGame = this.currentSetGames.pop()!;
-        this.currentGamePoints = lastGame.points;
-        this.gameScores[lastGame.winner - 1]--;
-        this.currentGame--;
-
-        // Restore server
-        this.currentServerId = lastGame.server;
-
-        // Restore point score from last point
-        const lastPoint = this.currentGamePoints.pop();
-        if (lastPoint) {
-          // Recalculate point score
-          this.recalculatePointScore();
-        }
-      } else if (this.setHistory.length > 0) {
-        // Need to restore previous set
-        const lastSet = this.setHistory.pop()!;
-        this.currentSetGames = lastSet.games;
-        this.setScores[lastSet.winner - 1]--;
-        this.currentSet--;
+  redoPoint(): void {
+    if (this.logInput({ type: "redo" }, () => this.redoPoint())) {
+      return;
+    }
 
-        // Restore game scores
-        this.gameScores = [...lastSet.score] as [number, number];
+    const point = this.redoStack[this.redoStack.length - 1];
+    if (!point) return;
+    this.checkCanPlay();
 
-        // Restore current game number
-        this.currentGame = this.currentSetGames.length + 1;
+    const redoStack = this.redoStack.slice(0, -1);
+    this.decidingPointChoice = point.decidingPoint;
+    this.scorePoint(this.toPointInput(point));
+    this.redoStack = redoStack;
+  }
 
-        // Restore tiebreak status
-        if (lastSet.tiebreak) {
-          this.tiebreak = true;
-        }
+  /**
+   * Checks whether there is an undone point to redo.
+   *
+   * @returns True if redoPoint would score a point
+   */
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
 
-        // Restore last game of previous set
-        if (this.currentSetGames.length > 0) {
-          this.removePoint(); // Recursive call to handle the game
-        }
-      }
+  /**
+   * Keeps an undone point so it can be redone. Undoing a penalty point
+   * withdraws its violation, so neither it nor any point undone before it
+   * can be redone.
+   */
+  private keepForRedo(point: PointSummary): void {
+    if (point.outcome === PointOutcome.Penalty) {
+      this.redoStack = [];
     } else {
-      // Remove last point from current game
-      const lastPoint = this.currentGamePoints.pop()!;
-
-      // Recalculate point score
-      this.recalculatePointScore();
-
-      // TODO: Update statistics (would need to implement removePoint in StatisticsManager)
+      this.redoStack.push(point);
     }
-
-    // Clear match winner if set
-    this.matchWinner = undefined;
-
-    this.save();
   }
 
   /**
@@ -640,7 +2641,25 @@ export class TennisMatch {
         ...this.config.format,
         matchType: this.config.matchType,
         format: this.config.format,
-        status: this.matchWinner ? "completed" : "in-progress",
+        status: this.ending
+          ? this.ending.status
+          : this.matchWinner
+            ? "completed"
+            : this.isSuspended()
+              ? "suspended"
+              : "in-progress",
+        duration: this.clock.startTime
+          ? this.getPlayingTime(
+              this.clock.startTime,
+              this.clock.endTime || new Date()
+            )
+          : undefined,
+        surface: this.config.surface,
+        tournament: this.config.tournament,
+        round: this.config.round,
+        toss: this.toss,
+        ending: this.ending,
+        clock: this.clock,
       },
       score: {
         participants: this.participants,
@@ -653,6 +2672,9 @@ export class TennisMatch {
         server: {
           current: this.currentServerId,
           rotation: this.servingRotation,
+          serveNumber: this.countPendingServes("fault") > 0 ? 2 : 1,
+          lets: this.countPendingServes("let"),
+          court: this.getServeCourt(),
         },
         winner: this.matchWinner,
       },
@@ -675,16 +2697,172 @@ export class TennisMatch {
       currentGame: this.currentGame,
       setHistory: this.setHistory,
       currentSetGames: this.currentSetGames,
+      ends: this.getEnds(),
+      changeover: this.getPendingChangeover(),
+      violations: [...this.violations],
+      events: [...this.events],
+      challenges: [...this.challenges],
+      challengeStats: {
+        1: this.getChallengeStatistics(1),
+        2: this.getChallengeStatistics(2),
+      },
     };
   }
 
+  /**
+   * Gets the match summary as it was after a point, without changing the
+   * match.
+   *
+   * The points up to and including the given one are replayed on a copy of
+   * the match, so scores, servers, set history and statistics are exactly
+   * as they were. Events, violations, challenges and suspensions are
+   * included when they were recorded before the next point, and penalties
+   * with the points and games they awarded. After the last point the
+   * summary also includes any early ending.
+   *
+   * @param index - Index of the point in getPointHistory
+   * @returns The match summary after the point
+   * @throws {Error} If there is no point at the index
+   *
+   * @example
+   * ```typescript
+   * // Scrub back to the tenth point
+   * const summary = match.getSummaryAfterPoint(9);
+   * console.log(summary.matchScore, summary.score.points.values);
+   * ```
+   */
+  getSummaryAfterPoint(index: number): UnifiedMatchSummary {
+    const entries = this.getScoreEntries();
+    const position = this.findPointEntry(entries, index);
+    if (position < 0) {
+      throw new Error(`There is no point at index ${index}`);
+    }
+    return this.getSnapshot(entries, position + 1);
+  }
+
+  /**
+   * Gets the match summary as it was after a game, without changing the
+   * match.
+   *
+   * Works like getSummaryAfterPoint, taking the last point of the game.
+   * Leaving out the game gives the summary after the last game played in
+   * the set, e.g. the statistics at the end of the first set.
+   *
+   * @param set - Set number, starting at 1
+   * @param game - Game number within the set, starting at 1
+   * @returns The match summary after the game
+   * @throws {Error} If the game has not been completed
+   *
+   * @example
+   * ```typescript
+   * const endOfFirstSet = match.getSummaryAfterGame(1);
+   * const afterBreak = match.getSummaryAfterGame(2, 5);
+   * ```
+   */
+  getSummaryAfterGame(set: number, game?: number): UnifiedMatchSummary {
+    const games =
+      set === this.currentSet
+        ? this.currentSetGames
+        : this.setHistory[set - 1]?.games || [];
+    const gameNumber = game ?? games.length;
+    if (gameNumber < 1 || gameNumber > games.length) {
+      throw new Error(`Game ${gameNumber} of set ${set} has not been played`);
+    }
+
+    // Each game contributes its points, and a penalty game one more entry
+    const target = games[gameNumber - 1];
+    let entryCount = 0;
+    for (const played of this.getAllGames()) {
+      entryCount += played.points.length + (played.penalty ? 1 : 0);
+      if (played === target) break;
+    }
+    return this.getSnapshot(this.getScoreEntries(), entryCount);
+  }
+
+  /**
+   * Builds the match summary after the first entries of the match.
+   */
+  private getSnapshot(
+    entries: ScoreEntry[],
+    entryCount: number
+  ): UnifiedMatchSummary {
+    const played = entries.slice(0, entryCount);
+    const replayed = this.replayEntries(played);
+    const isComplete = entryCount === entries.length;
+    const count = (kind: "point" | "penaltyPoint" | "penaltyGame") =>
+      played.filter((entry) => kind in entry).length;
+    const pointCount = count("point") + count("penaltyPoint");
+
+    // Penalties go with the points and games they awarded; anything else
+    // recorded before the next point belongs to the snapshot
+    let penaltyPoints = count("penaltyPoint");
+    let penaltyGames = count("penaltyGame");
+    replayed.violations = this.violations.filter((violation) => {
+      switch (violation.penalty) {
+        case "point":
+          return penaltyPoints-- > 0;
+        case "game":
+          return penaltyGames-- > 0;
+        case "default":
+          return isComplete;
+        default:
+          return violation.pointIndex <= pointCount;
+      }
+    });
+    replayed.challenges = this.challenges.filter(
+      (challenge) => challenge.pointIndex <= pointCount
+    );
+    replayed.events = this.events.filter(
+      (event) => event.pointIndex <= pointCount
+    );
+    replayed.clock.suspensions = this.clock.suspensions.filter(
+      (suspension) => suspension.pointIndex <= pointCount
+    );
+    if (isComplete) {
+      replayed.ending = this.ending;
+      replayed.matchWinner = this.matchWinner;
+      replayed.clock.endTime = this.clock.endTime;
+    }
+
+    const summary = replayed.getMatchSummary();
+
+    // The clock of an unfinished snapshot stops at its last point
+    const last = played[played.length - 1];
+    const lastTime =
+      last && ("point" in last ? last.point.timestamp : last.time);
+    if (
+      !isComplete &&
+      !replayed.clock.endTime &&
+      replayed.clock.startTime &&
+      lastTime
+    ) {
+      summary.meta.duration = replayed.getPlayingTime(
+        replayed.clock.startTime,
+        new Date(lastTime)
+      );
+    }
+    return summary;
+  }
+
   /**
    * Gets the match score as a string.
+   *
+   * A match that ended early shows the score at the time followed by
+   * "ret.", "def." or "w/o".
    */
   getMatchScoreString(): string {
+    if (this.ending?.status === "walkover") {
+      return "w/o";
+    }
+
     const scores: string[] = [];
 
     for (const set of this.setHistory) {
+      if (set.matchTiebreak && set.tiebreak) {
+        scores.push(`[${set.tiebreak.score[0]}-${set.tiebreak.score[1]}]`);
+        continue;
+      }
+
       let setScore = `${set.score[0]}-${set.score[1]}`;
       if (set.tiebreak) {
         const loserScore =
@@ -696,12 +2874,80 @@ export class TennisMatch {
       scores.push(setScore);
     }
 
-    // Add current set if not complete
-    if (!this.matchWinner) {
-      scores.push(`${this.gameScores[0]}-${this.gameScores[1]}`);
+    // Add current set if not complete (a match ended between sets has none)
+    const betweenSets =
+      this.ending !== undefined &&
+      this.setHistory.length > 0 &&
+      this.currentSetGames.length === 0 &&
+      this.currentGamePoints.length === 0;
+    if ((!this.matchWinner || this.ending) && !betweenSets) {
+      if (this.getCurrentSetFormat().matchTiebreak) {
+        scores.push(`[${this.pointScores[0]}-${this.pointScores[1]}]`);
+      } else {
+        scores.push(`${this.gameScores[0]}-${this.gameScores[1]}`);
+      }
+    }
+
+    const score = scores.join(", ");
+    if (this.ending) {
+      return `${score} ${this.ending.status === "retired" ? "ret." : "def."}`;
+    }
+    return score;
+  }
+
+  /**
+   * Adds an input to the log and applies it by calling its method again,
+   * then saves the match and tells listeners about the milestones it
+   * reached.
+   *
+   * Returns undefined, so that the method carries on as normal, when called
+   * again to apply the input or while another input is applied: the double
+   * fault scored by recordFault is part of the fault, not an input of its
+   * own. The input is applied at the time it was logged, so every time
+   * recorded while applying it is the same on replay. Methods check an input
+   * before they change anything, so one that throws leaves the match as it
+   * was: it is taken out of the log and sends no milestones.
+   */
+  private logInput<T>(
+    input: UntimedInput,
+    apply: () => T
+  ): { result: T } | undefined {
+    if (this.applyingInput) return undefined;
+
+    const logged = { ...input, timestamp: this.now() } as MatchInput;
+    this.inputs?.push(logged);
+    // Every method applying the input reads the time it was logged at, as a
+    // replay of it does
+    const inputTime = this.inputTime;
+    this.inputTime = logged.timestamp;
+    this.applyingInput = true;
+    let result: T;
+    try {
+      result = apply();
+    } catch (error) {
+      this.milestones = [];
+      this.inputs?.pop();
+      throw error;
+    } finally {
+      this.applyingInput = false;
+      this.inputTime = inputTime;
+    }
+
+    // The input has been applied, so listeners hear of it even if saving
+    // fails
+    try {
+      this.save();
+    } finally {
+      this.sendMilestones();
     }
+    return { result };
+  }
 
-    return scores.join(", ");
+  /**
+   * Gets the current time, or the time of the input being applied.
+   */
+  private now(): Date {
+    return this.inputTime ? new Date(this.inputTime) : new Date();
   }
 
   /**
@@ -713,6 +2959,87 @@ export class TennisMatch {
     }
   }
 
+  /**
+   * Calls the listeners for the milestones reached by the last input.
+   *
+   * A listener that throws is reported and skipped, so it cannot undo an
+   * input that has already been applied or stop the other listeners.
+   */
+  private sendMilestones(): void {
+    const milestones = this.milestones;
+    this.milestones = [];
+    for (const notify of milestones) {
+      try {
+        notify();
+      } catch (error) {
+        console.error("Milestone listener failed", error);
+      }
+    }
+  }
+
+  /**
+   * Queues a milestone for the listeners of its type.
+   */
+  private emit<K extends keyof MatchMilestones>(
+    type: K,
+    milestone: MatchMilestones[K]
+  ): void {
+    const listeners = this.listeners[type];
+    if (!listeners || listeners.length === 0) return;
+
+    for (const listener of [...listeners]) {
+      this.milestones.push(() => listener(milestone));
+    }
+  }
+
+  /**
+   * Adds a listener for a match milestone.
+   *
+   * Listeners are called in order once the change that reached the
+   * milestone is complete and saved, so the match summary is up to date.
+   * A listener that throws is reported with console.error and does not
+   * affect the match or the other listeners.
+   * Undoing or correcting points does not send milestones; a redone point
+   * is sent like any other.
+   *
+   * @param type - Milestone to listen for
+   * @param listener - Called with the point, game or set summary involved
+   *
+   * @example
+   * ```typescript
+   * match.on("break", ({ game }) => {
+   *   console.log(`Break of serve, ${game.winner} wins the game`);
+   * });
+   * match.on("matchComplete", ({ winner }) => showResult(winner));
+   * ```
+   */
+  on<K extends keyof MatchMilestones>(
+    type: K,
+    listener: MatchMilestoneListener<K>
+  ): void {
+    const listeners: MatchMilestoneListener<K>[] = this.listeners[type] || [];
+    listeners.push(listener);
+    this.listeners[type] = listeners as (typeof this.listeners)[K];
+  }
+
+  /**
+   * Removes a listener added with on.
+   *
+   * @param type - Milestone the listener was added for
+   * @param listener - The listener to remove
+   */
+  off<K extends keyof MatchMilestones>(
+    type: K,
+    listener: MatchMilestoneListener<K>
+  ): void {
+    const listeners: MatchMilestoneListener<K>[] | undefined =
+      this.listeners[type];
+    if (!listeners) return;
+
+    const index = listeners.indexOf(listener);
+    if (index >= 0) listeners.splice(index, 1);
+  }
+
   /**
    * Default save callback using localStorage.
    */
@@ -756,17 +3083,166 @@ export class TennisMatch {
       gameScores: this.gameScores,
       pointScores: this.pointScores,
       stats: Array.from(this.statsManager.getAllStats().entries()),
+      toss: this.toss,
+      pendingServe: this.pendingServe,
+      violations: this.violations,
+      ending: this.ending,
+      clock: this.clock,
+      events: this.events,
+      challenges: this.challenges,
+      redoStack: this.redoStack,
+      inputs: this.inputs,
     };
   }
 
+  /**
+   * Gets the log of inputs made to the match, in order.
+   *
+   * Replaying the log with TennisMatch.replay rebuilds the match exactly.
+   * A match restored from data saved without a log has none.
+   *
+   * @returns The inputs made to the match, or undefined without a log
+   */
+  getInputLog(): MatchInput[] | undefined {
+    return this.inputs && [...this.inputs];
+  }
+
+  /**
+   * Rebuilds a match by replaying its inputs in order.
+   *
+   * Each input is applied as the method call it records, at the time it was
+   * made, so replaying the same inputs always produces identical state:
+   * scores, servers, set history, statistics and the input log itself.
+   *
+   * @param inputs - Inputs from getInputLog, or from toJSON
+   * @param config - The match configuration, as returned by toJSON
+   * @param saveCallback - Optional callback for auto-saving match state
+   * @returns The rebuilt match
+   * @throws {Error} If an input cannot be applied, naming the input
+   *
+   * @example
+   * ```typescript
+   * const data = match.toJSON();
+   * const copy = TennisMatch.replay(data.inputs!, data.config);
+   * ```
+   */
+  static replay(
+    inputs: MatchInput[],
+    config: MatchConfig,
+    saveCallback?: (match: TennisMatch) => void
+  ): TennisMatch {
+    const match = TennisMatch.fromConfig(config, () => {});
+    inputs.forEach((input, index) => {
+      match.inputTime = new Date(input.timestamp);
+      try {
+        match.applyInput(input);
+      } catch (error) {
+        throw new Error(
+          `Input ${index} (${input.type}) cannot be replayed: ${(error as Error).message}`
+        );
+      }
+    });
+    match.inputTime = undefined;
+    match.saveCallback = saveCallback || match.defaultSaveCallback();
+
+    return match;
+  }
+
+  /**
+   * Applies an input from the log by calling its method.
+   *
+   * Times read back from JSON are turned into Dates first.
+   */
+  private applyInput(input: MatchInput): void {
+    const toDate = (time?: Date) => (time ? new Date(time) : undefined);
+    const withDate = <T extends { timestamp?: Date }>(value: T): T =>
+      value.timestamp
+        ? { ...value, timestamp: new Date(value.timestamp) }
+        : value;
+
+    switch (input.type) {
+      case "point":
+        this.scorePoint(withDate(input.point));
+        break;
+      case "fault":
+        this.recordFault();
+        break;
+      case "let":
+        this.recordLet();
+        break;
+      case "toss":
+        this.recordToss(input.winner, input.choice, input.options);
+        break;
+      case "servingOrder":
+        this.setServingOrder(input.firstServers);
+        break;
+      case "decidingPointChoice":
+        this.chooseDecidingPointReceiver(input.court, input.receiverId);
+        break;
+      case "violation":
+        this.issueViolation(input.participant, input.violation, input.options);
+        break;
+      case "retirement":
+        this.recordRetirement(input.participant, input.reason);
+        break;
+      case "walkover":
+        this.recordWalkover(input.participant, input.reason);
+        break;
+      case "default":
+        this.recordDefault(input.participant, input.reason);
+        break;
+      case "start":
+        this.startMatch(toDate(input.time));
+        break;
+      case "suspend":
+        this.suspend(input.reason, toDate(input.time));
+        break;
+      case "resume":
+        this.resume(toDate(input.time));
+        break;
+      case "end":
+        this.endMatch(toDate(input.time));
+        break;
+      case "event":
+        this.recordEvent(input.event, input.options && withDate(input.options));
+        break;
+      case "challenge":
+        this.recordChallenge(
+          input.participant,
+          input.successful,
+          input.options
+        );
+        break;
+      case "undo":
+        this.removePoint();
+        break;
+      case "redo":
+        this.redoPoint();
+        break;
+      case "edit":
+        this.editPoint(input.index, withDate(input.changes));
+        break;
+      case "insert":
+        this.insertPoint(input.index, withDate(input.point));
+        break;
+      case "delete":
+        this.deletePoint(input.index);
+        break;
+    }
+  }
+
   /**
    * Creates a match instance from previously serialized JSON data.
    *
    * Restores complete match state including scores, statistics, and history.
+   * Data saved with an input log is rebuilt by replaying the log, which is
+   * the source of the state saved alongside it; older data is restored from
+   * its fields.
    *
    * @param data - JSON data from toJSON()
    * @param saveCallback - Optional callback for auto-saving match state
    * @returns Restored TennisMatch instance
+   * @throws {Error} If the input log cannot be replayed
    *
    * @example
    * ```typescript
@@ -778,6 +3254,10 @@ export class TennisMatch {
     data: SerializedMatch,
     saveCallback?: (match: TennisMatch) => void
   ): TennisMatch {
+    if (data.inputs) {
+      return TennisMatch.replay(data.inputs, data.config, saveCallback);
+    }
+
     // Create match with basic config
     const match = new TennisMatch(
       data.participants[1].name,
@@ -791,7 +3271,15 @@ export class TennisMatch {
     match.participants = data.participants;
     match.currentSet = data.currentSet;
     match.currentGame = data.currentGame;
-    match.setHistory = data.setHistory;
+    match.setHistory = data.setHistory.map((set) =>
+      set.startTime
+        ? {
+            ...set,
+            startTime: new Date(set.startTime),
+            endTime: set.endTime && new Date(set.endTime),
+          }
+        : set
+    );
     match.currentSetGames = data.currentSetGames;
     match.currentGamePoints = data.currentGamePoints;
     match.tiebreak = data.tiebreak;
@@ -801,6 +3289,18 @@ export class TennisMatch {
     match.setScores = data.setScores;
     match.gameScores = data.gameScores;
     match.pointScores = data.pointScores;
+    match.toss = data.toss;
+    match.pendingServe = data.pendingServe || [];
+    match.violations = data.violations || [];
+    match.ending = data.ending;
+    match.clock = TennisMatch.reviveClock(data.clock);
+    match.events = data.events || [];
+    match.challenges = data.challenges || [];
+    match.redoStack = data.redoStack || [];
+    // The inputs that led here are unknown, so later ones cannot be replayed
+    // either
+    match.inputs = undefined;
+    match.statsHistory = undefined;
 
     // Restore statistics
     if (data.stats) {
@@ -814,6 +3314,25 @@ export class TennisMatch {
     return match;
   }
 
+  /**
+   * Converts clock times read back from JSON into Dates.
+   */
+  private static reviveClock(clock?: MatchClock): MatchClock {
+    if (!clock) return { suspensions: [] };
+
+    const toDate = (time?: Date) => (time ? new Date(time) : undefined);
+    return {
+      startTime: toDate(clock.startTime),
+      endTime: toDate(clock.endTime),
+      setStartTime: toDate(clock.setStartTime),
+      suspensions: clock.suspensions.map((suspension) => ({
+        ...suspension,
+        start: new Date(suspension.start),
+        end: toDate(suspension.end),
+      })),
+    };
+  }
+
   /**
    * Loads a match from storage.
    *
@@ -823,6 +3342,7 @@ export class TennisMatch {
    * @param loader - Optional function to retrieve saved data
    * @param saveCallback - Optional callback for auto-saving match state
    * @returns Loaded TennisMatch or null if not found
+   * @throws {Error} If the saved input log cannot be replayed
    *
    * @example
    * ```typescript
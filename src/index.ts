@@ -11,6 +11,9 @@ export {
   getAbbreviatedName,
 } from "./participant-factory.js";
 
+// Match format utilities
+export { createMatchFormat } from "./match-format.js";
+
 // Statistics utilities
 export {
   StatisticsManager,
@@ -25,6 +28,7 @@ export {
 // Type guards and enums
 export {
   PointOutcome,
+  Stroke,
   isSinglesPlayer,
   isDoublesTeam,
   isTeamStatistics,
@@ -40,24 +44,57 @@ export type {
   AnyParticipant,
   ParticipantPosition,
   TeamPlayerPosition,
+  CourtSide,
+  CourtEnd,
 
   // Match types
   MatchConfig,
   MatchFormat,
+  SetFormat,
+  CoinToss,
+  TossChoice,
+  TossOptions,
+  CodeViolation,
+  ViolationType,
+  ViolationOptions,
+  PenaltyType,
+  MatchStatus,
+  MatchEnding,
+  MatchClock,
+  Suspension,
+  MatchEvent,
+  MatchEventType,
+  MatchEventOptions,
+  Challenge,
+  ChallengeOptions,
+  ChallengeStatistics,
   MatchScore,
   PointScore,
   ServingInfo,
+  ServeEvent,
+  PointInput,
+  RallyInfo,
+  ShotInfo,
+  ShotDirection,
+  ShotErrorType,
+  ServePlacement,
   UnifiedMatchSummary,
 
   // Statistics types
   ParticipantStatistics,
   TeamStatistics,
+  StrokeStatistics,
+  ServePlacementStatistics,
 
   // Summary types
   PointSummary,
   GameSummary,
   SetSummary,
   TiebreakSummary,
+  DecidingPointChoice,
+  Changeover,
+  MatchMilestones,
+  MatchMilestoneListener,
 
   // Configuration types
   SinglesPlayerConfig,
@@ -65,4 +102,5 @@ export type {
 
   // Serialization types
   SerializedMatch,
+  MatchInput,
 } from "./types.js";
@@ -0,0 +1,196 @@
+/**
+ * Match format defaults and per-set scoring rules.
+ */
+
+import { MatchFormat, SetFormat } from "./types.js";
+
+/**
+ * Games needed to win a standard set.
+ */
+const STANDARD_SET_GAMES = 6;
+
+/**
+ * Games needed to win a short set.
+ */
+const SHORT_SET_GAMES = 4;
+
+/**
+ * Points needed to win a standard tiebreak.
+ */
+const STANDARD_TIEBREAK_POINTS = 7;
+
+/**
+ * Points needed to win a match tiebreak.
+ */
+const MATCH_TIEBREAK_POINTS = 10;
+
+/**
+ * Unsuccessful line-call challenges allowed per participant in a set.
+ */
+const STANDARD_CHALLENGES = 3;
+
+/**
+ * Creates a complete match format, filling in standard defaults.
+ *
+ * Short sets are played to 4 games instead of 6. Unless specified, the
+ * tiebreak is played when the set reaches games-all at the set's game target.
+ * With a match tiebreak, the deciding set is replaced by a single tiebreak
+ * played to 10 points. Otherwise the deciding set follows the final-set
+ * options: no tiebreak at all (an advantage set) when `finalSetTiebreak` is
+ * false, or a tiebreak at `finalSetTiebreakAt` to `finalSetTiebreakPoints`.
+ *
+ * @param format - Partial format overriding the defaults
+ * @returns Complete MatchFormat
+ * @throws Error if the format is not playable
+ *
+ * @example
+ * ```typescript
+ * // Fast4: first to 4 games, tiebreak to 5 at 3-3
+ * const fast4 = createMatchFormat({
+ *   shortSets: true,
+ *   tiebreakAt: 3,
+ *   tiebreakPoints: 5,
+ *   noAdScoring: true,
+ * });
+ *
+ * // Grand Slam: 10-point tiebreak at 6-6 in the fifth set
+ * const slam = createMatchFormat({ sets: 5, finalSetTiebreakPoints: 10 });
+ * ```
+ */
+export function createMatchFormat(
+  format: Partial<MatchFormat> = {}
+): MatchFormat {
+  const gamesPerSet =
+    format.gamesPerSet ??
+    (format.shortSets ? SHORT_SET_GAMES : STANDARD_SET_GAMES);
+
+  const resolved: MatchFormat = {
+    sets: 3,
+    tiebreakAt: gamesPerSet,
+    finalSetTiebreak: true,
+    ...format,
+    gamesPerSet,
+    tiebreakPoints: format.tiebreakPoints ?? STANDARD_TIEBREAK_POINTS,
+  };
+
+  if (resolved.matchTiebreak) {
+    resolved.matchTiebreakPoints =
+      format.matchTiebreakPoints ?? MATCH_TIEBREAK_POINTS;
+  }
+
+  validateMatchFormat(resolved);
+  return resolved;
+}
+
+/**
+ * Validates a match format.
+ */
+export function validateMatchFormat(format: MatchFormat): void {
+  if (format.sets % 2 === 0) {
+    throw new Error("Number of sets must be odd");
+  }
+
+  const gamesPerSet = format.gamesPerSet ?? STANDARD_SET_GAMES;
+  if (gamesPerSet < 1) {
+    throw new Error("Sets must be played to at least one game");
+  }
+  if (format.tiebreakAt < gamesPerSet - 1) {
+    throw new Error(
+      `Tiebreak must be played at ${gamesPerSet - 1}-${gamesPerSet - 1} or later`
+    );
+  }
+  if (format.tiebreakPoints !== undefined && format.tiebreakPoints < 1) {
+    throw new Error("Tiebreaks must be played to at least one point");
+  }
+  if (
+    format.matchTiebreakPoints !== undefined &&
+    format.matchTiebreakPoints < 1
+  ) {
+    throw new Error("Match tiebreaks must be played to at least one point");
+  }
+  if (
+    format.finalSetTiebreakAt !== undefined &&
+    format.finalSetTiebreakAt < gamesPerSet - 1
+  ) {
+    throw new Error(
+      `Final set tiebreak must be played at ${gamesPerSet - 1}-${gamesPerSet - 1} or later`
+    );
+  }
+  if (
+    format.finalSetTiebreakPoints !== undefined &&
+    format.finalSetTiebreakPoints < 1
+  ) {
+    throw new Error("Final set tiebreaks must be played to at least one point");
+  }
+  if (format.challengesPerSet !== undefined && format.challengesPerSet < 0) {
+    throw new Error("Challenges per set cannot be negative");
+  }
+}
+
+/**
+ * Checks whether a set is the deciding set of the match.
+ */
+export function isDecidingSet(format: MatchFormat, setNumber: number): boolean {
+  return setNumber === format.sets;
+}
+
+/**
+ * Gets the number of unsuccessful challenges each participant may make in a
+ * set. A tiebreak adds one more.
+ *
+ * @param format - Match format
+ * @param inTiebreak - Whether a tiebreak is being played
+ * @returns Challenges allowed in the set so far
+ */
+export function getChallengeAllowance(
+  format: MatchFormat,
+  inTiebreak: boolean
+): number {
+  const perSet = format.challengesPerSet ?? STANDARD_CHALLENGES;
+  return inTiebreak ? perSet + 1 : perSet;
+}
+
+/**
+ * Gets the scoring rules for a set.
+ *
+ * A match tiebreak is modelled as a one-game set whose tiebreak starts at 0-0,
+ * and an advantage set as a set with no tiebreak (`tiebreakAt` of null).
+ *
+ * @param format - Match format
+ * @param setNumber - Set number (1-based)
+ * @returns Rules for the given set
+ */
+export function getSetFormat(
+  format: MatchFormat,
+  setNumber: number
+): SetFormat {
+  if (format.matchTiebreak && isDecidingSet(format, setNumber)) {
+    return {
+      gamesToWin: 1,
+      tiebreakAt: 0,
+      tiebreakPoints: format.matchTiebreakPoints ?? MATCH_TIEBREAK_POINTS,
+      matchTiebreak: true,
+    };
+  }
+
+  const gamesToWin = format.gamesPerSet ?? STANDARD_SET_GAMES;
+  const tiebreakPoints = format.tiebreakPoints ?? STANDARD_TIEBREAK_POINTS;
+
+  if (isDecidingSet(format, setNumber)) {
+    return {
+      gamesToWin,
+      tiebreakAt: format.finalSetTiebreak
+        ? (format.finalSetTiebreakAt ?? format.tiebreakAt)
+        : null,
+      tiebreakPoints: format.finalSetTiebreakPoints ?? tiebreakPoints,
+      matchTiebreak: false,
+    };
+  }
+
+  return {
+    gamesToWin,
+    tiebreakAt: format.tiebreakAt,
+    tiebreakPoints,
+    matchTiebreak: false,
+  };
+}
@@ -26,7 +26,7 @@ function generateId(prefix: string): string {
 /**
  * Creates a singles player participant.
  *
- * @param config - Player configuration with name and optional ID
+ * @param config - Player configuration with name and optional ID, ranking and country
  * @param position - Match position (1 or 2)
  * @returns SinglesPlayer object
  *
@@ -39,12 +39,17 @@ export function createSinglesPlayer(
   config: SinglesPlayerConfig,
   position: ParticipantPosition
 ): SinglesPlayer {
-  return {
+  const player: SinglesPlayer = {
     id: config.id || generateId("player"),
     type: "player",
     name: config.name,
     position,
   };
+
+  if (config.ranking !== undefined) player.ranking = config.ranking;
+  if (config.country !== undefined) player.country = config.country;
+
+  return player;
 }
 
 /**
@@ -54,11 +59,16 @@ function createTeamPlayer(
   config: SinglesPlayerConfig,
   position: TeamPlayerPosition
 ): TeamPlayer {
-  return {
+  const player: TeamPlayer = {
     id: config.id || generateId("teamplayer"),
     name: config.name,
     position,
   };
+
+  if (config.ranking !== undefined) player.ranking = config.ranking;
+  if (config.country !== undefined) player.country = config.country;
+
+  return player;
 }
 
 /**
@@ -173,6 +183,8 @@ export function areParticipantsEqual(
  * @param team1 - First team
  * @param team2 - Second team
  * @param firstServer - Which player serves first (team and position)
+ * @param otherTeamFirstServer - Which player serves first for the other team
+ *   (defaults to the same position as the first server)
  * @returns Array of player IDs in serving order
  *
  * @example
@@ -183,31 +195,24 @@ export function areParticipantsEqual(
 export function createServingRotation(
   team1: DoublesTeam,
   team2: DoublesTeam,
-  firstServer: { team: ParticipantPosition; player: TeamPlayerPosition }
+  firstServer: { team: ParticipantPosition; player: TeamPlayerPosition },
+  otherTeamFirstServer: TeamPlayerPosition = firstServer.player
 ): string[] {
-  const rotation: string[] = [];
-
   // Standard rotation: T1A → T2A → T1B → T2B (or variations based on first server)
   const teams = { 1: team1, 2: team2 };
-  const positions: TeamPlayerPosition[] = ["a", "b"];
-
-  // Start with the specified first server
-  let currentTeam = firstServer.team;
-  let currentPosition = firstServer.player;
-
-  for (let i = 0; i < 4; i++) {
-    rotation.push(teams[currentTeam].players[currentPosition].id);
+  const otherTeam: ParticipantPosition = firstServer.team === 1 ? 2 : 1;
+  const partner = (position: TeamPlayerPosition): TeamPlayerPosition =>
+    position === "a" ? "b" : "a";
 
-    // Alternate teams
-    currentTeam = currentTeam === 1 ? 2 : 1;
-
-    // After both teams have served with position 'a', switch to position 'b'
-    if (i === 1) {
-      currentPosition = currentPosition === "a" ? "b" : "a";
-    }
-  }
+  // Each team's first server, then their partners
+  const order: [ParticipantPosition, TeamPlayerPosition][] = [
+    [firstServer.team, firstServer.player],
+    [otherTeam, otherTeamFirstServer],
+    [firstServer.team, partner(firstServer.player)],
+    [otherTeam, partner(otherTeamFirstServer)],
+  ];
 
-  return rotation;
+  return order.map(([team, player]) => teams[team].players[player].id);
 }
 
 /**
@@ -10,8 +10,18 @@ import {
   AnyParticipant,
   isDoublesTeam,
   TeamPlayerPosition,
+  RallyInfo,
+  ShotInfo,
+  Stroke,
+  StrokeStatistics,
+  CourtSide,
+  ServePlacement,
+  ServePlacementStatistics,
 } from "./types.js";
 
+const COURT_SIDES: CourtSide[] = ["deuce", "ad"];
+const SERVE_PLACEMENTS: ServePlacement[] = ["wide", "body", "T"];
+
 /**
  * Creates an empty statistics object with all counters initialized to zero.
  *
@@ -66,9 +76,64 @@ export function createEmptyStats(): ParticipantStatistics {
       baselinePointsWon: 0,
       baselinePointsPlayed: 0,
     },
+
+    strokes: createEmptyStrokeStats(),
+
+    servePlacement: createEmptyServePlacementStats(),
   };
 }
 
+/**
+ * Creates zeroed winner and error counters for every stroke.
+ */
+function createEmptyStrokeStats(): Record<Stroke, StrokeStatistics> {
+  const strokes = {} as Record<Stroke, StrokeStatistics>;
+  for (const stroke of Object.values(Stroke)) {
+    strokes[stroke] = { winners: 0, unforcedErrors: 0, forcedErrors: 0 };
+  }
+  return strokes;
+}
+
+/**
+ * Creates zeroed serve placement counters for each court and serve number.
+ */
+function createEmptyServePlacementStats(): ParticipantStatistics["servePlacement"] {
+  const placements = {} as ParticipantStatistics["servePlacement"];
+  for (const court of COURT_SIDES) {
+    placements[court] = {
+      1: createPlacementCounts(),
+      2: createPlacementCounts(),
+    };
+  }
+  return placements;
+}
+
+function createPlacementCounts(): Record<
+  ServePlacement,
+  ServePlacementStatistics
+> {
+  const counts = {} as Record<ServePlacement, ServePlacementStatistics>;
+  for (const placement of SERVE_PLACEMENTS) {
+    counts[placement] = { served: 0, pointsWon: 0, aces: 0 };
+  }
+  return counts;
+}
+
+/**
+ * Calls fn for every court, serve number and placement combination.
+ */
+function forEachServePlacement(
+  fn: (court: CourtSide, serveNumber: 1 | 2, placement: ServePlacement) => void
+): void {
+  for (const court of COURT_SIDES) {
+    for (const serveNumber of [1, 2] as const) {
+      for (const placement of SERVE_PLACEMENTS) {
+        fn(court, serveNumber, placement);
+      }
+    }
+  }
+}
+
 /**
  * Creates empty team statistics with aggregate and per-player tracking.
  *
@@ -98,6 +163,10 @@ export function createEmptyTeamStats(): TeamStatistics {
  * @param won - Whether this participant won the point
  * @param isServing - Whether this participant was serving
  * @param isFirstServe - Whether this was a first serve (optional)
+ * @param faults - Serve faults before the point, when the serve sequence was
+ *   recorded (optional). Takes precedence over isFirstServe.
+ * @param shot - The final shot of the point, counted by stroke alongside the
+ *   rally stats (optional)
  * @returns Updated statistics object
  *
  * @example
@@ -111,7 +180,9 @@ export function updateStats(
   outcome: PointOutcome,
   won: boolean,
   isServing: boolean,
-  isFirstServe?: boolean
+  isFirstServe?: boolean,
+  faults?: number,
+  shot?: ShotInfo
 ): ParticipantStatistics {
   const updated = deepClone(stats);
 
@@ -121,8 +192,15 @@ export function updateStats(
     updated.pointsWon++;
   }
 
+  // A recorded serve sequence tells us exactly which serve the point was on
+  if (faults !== undefined) {
+    isFirstServe = faults === 0;
+  }
+
   // Update based on serve status
-  if (isServing) {
+  if (isServing && faults !== undefined) {
+    countRecordedServes(updated, outcome, won, faults);
+  } else if (isServing) {
     // Serving statistics
     switch (outcome) {
       case PointOutcome.Ace:
@@ -205,10 +283,12 @@ export function updateStats(
   }
 
   // Rally statistics (applicable to both serving and returning)
+  const strokeStats = shot ? updated.strokes[shot.stroke] : undefined;
   switch (outcome) {
     case PointOutcome.Winner:
       if (won) {
         updated.rally.winners++;
+        if (strokeStats) strokeStats.winners++;
       }
       break;
 
@@ -216,6 +296,7 @@ export function updateStats(
       // Attribute unforced errors to the losing side only
       if (!won) {
         updated.rally.unforcedErrors++;
+        if (strokeStats) strokeStats.unforcedErrors++;
       }
       break;
 
@@ -223,6 +304,7 @@ export function updateStats(
       // Attribute forced errors to the winning side only
       if (won) {
         updated.rally.forcedErrors++;
+        if (strokeStats) strokeStats.forcedErrors++;
       }
       break;
   }
@@ -230,6 +312,53 @@ export function updateStats(
   return updated;
 }
 
+/**
+ * Counts serving statistics from a recorded serve sequence.
+ *
+ * Every point starts with a first serve; a point with one fault was played
+ * on a second serve, and two faults make a double fault.
+ */
+function countRecordedServes(
+  stats: ParticipantStatistics,
+  outcome: PointOutcome,
+  won: boolean,
+  faults: number
+): void {
+  if (outcome === PointOutcome.Ace) stats.serving.aces++;
+  if (outcome === PointOutcome.DoubleFault) stats.serving.doubleFaults++;
+  if (outcome === PointOutcome.ServiceWinner) stats.serving.serviceWinners++;
+
+  stats.serving.firstServeTotal++;
+  if (faults === 0) {
+    stats.serving.firstServeIn++;
+    if (won) stats.serving.pointsWonOnFirstServe++;
+    return;
+  }
+
+  stats.serving.secondServeTotal++;
+  if (faults === 1) {
+    stats.serving.secondServeIn++;
+    if (won) stats.serving.pointsWonOnSecondServe++;
+  }
+}
+
+/**
+ * Counts a net or baseline point.
+ */
+function countCourtPosition(
+  stats: ParticipantStatistics,
+  atNet: boolean,
+  won: boolean
+): void {
+  if (atNet) {
+    stats.rally.netPointsPlayed++;
+    if (won) stats.rally.netPointsWon++;
+  } else {
+    stats.rally.baselinePointsPlayed++;
+    if (won) stats.rally.baselinePointsWon++;
+  }
+}
+
 /**
  * Updates team statistics with individual player contribution.
  *
@@ -241,6 +370,8 @@ export function updateStats(
  * @param won - Whether the team won the point
  * @param isServing - Whether the team was serving
  * @param isFirstServe - Whether this was a first serve
+ * @param faults - Serve faults before the point, if recorded
+ * @param shot - The final shot of the point, if charted
  * @returns Updated team statistics object
  */
 export function updateTeamStats(
@@ -249,7 +380,9 @@ export function updateTeamStats(
   outcome: PointOutcome,
   won: boolean,
   isServing: boolean,
-  isFirstServe?: boolean
+  isFirstServe?: boolean,
+  faults?: number,
+  shot?: ShotInfo
 ): TeamStatistics {
   const updated = deepClone(teamStats) as TeamStatistics;
 
@@ -259,7 +392,9 @@ export function updateTeamStats(
     outcome,
     won,
     isServing,
-    isFirstServe
+    isFirstServe,
+    faults,
+    shot
   );
   Object.assign(updated, baseUpdate);
 
@@ -273,7 +408,9 @@ export function updateTeamStats(
     outcome,
     won,
     isServing,
-    isFirstServe
+    isFirstServe,
+    faults,
+    shot
   );
 
   return updated;
@@ -341,6 +478,23 @@ export function aggregateStats(
     result.rally.netPointsPlayed += stat.rally.netPointsPlayed;
     result.rally.baselinePointsWon += stat.rally.baselinePointsWon;
     result.rally.baselinePointsPlayed += stat.rally.baselinePointsPlayed;
+
+    // Stroke stats
+    for (const stroke of Object.values(Stroke)) {
+      result.strokes[stroke].winners += stat.strokes[stroke].winners;
+      result.strokes[stroke].unforcedErrors +=
+        stat.strokes[stroke].unforcedErrors;
+      result.strokes[stroke].forcedErrors += stat.strokes[stroke].forcedErrors;
+    }
+
+    // Serve placement stats
+    forEachServePlacement((court, serveNumber, placement) => {
+      const total = result.servePlacement[court][serveNumber][placement];
+      const counts = stat.servePlacement[court][serveNumber][placement];
+      total.served += counts.served;
+      total.pointsWon += counts.pointsWon;
+      total.aces += counts.aces;
+    });
   }
 
   return result;
@@ -378,6 +532,22 @@ export function mergeStats(
     Object.assign(result.rally, update.rally);
   }
 
+  if (update.strokes) {
+    for (const stroke of Object.values(Stroke)) {
+      Object.assign(result.strokes[stroke], update.strokes[stroke]);
+    }
+  }
+
+  if (update.servePlacement) {
+    const placements = update.servePlacement;
+    forEachServePlacement((court, serveNumber, placement) => {
+      Object.assign(
+        result.servePlacement[court][serveNumber][placement],
+        placements[court][serveNumber][placement]
+      );
+    });
+  }
+
   return result;
 }
 
@@ -531,6 +701,27 @@ export function compareStats(
   diff.rally.baselinePointsPlayed =
     stats1.rally.baselinePointsPlayed - stats2.rally.baselinePointsPlayed;
 
+  // Stroke differences
+  for (const stroke of Object.values(Stroke)) {
+    const [s1, s2] = [stats1.strokes[stroke], stats2.strokes[stroke]];
+    diff.strokes[stroke] = {
+      winners: s1.winners - s2.winners,
+      unforcedErrors: s1.unforcedErrors - s2.unforcedErrors,
+      forcedErrors: s1.forcedErrors - s2.forcedErrors,
+    };
+  }
+
+  // Serve placement differences
+  forEachServePlacement((court, serveNumber, placement) => {
+    const p1 = stats1.servePlacement[court][serveNumber][placement];
+    const p2 = stats2.servePlacement[court][serveNumber][placement];
+    diff.servePlacement[court][serveNumber][placement] = {
+      served: p1.served - p2.served,
+      pointsWon: p1.pointsWon - p2.pointsWon,
+      aces: p1.aces - p2.aces,
+    };
+  });
+
   return diff;
 }
 
@@ -612,6 +803,9 @@ export class StatisticsManager {
    * @param serverId - ID of the specific player who was serving
    * @param scorerId - ID of the specific player who hit the winner/error (optional)
    * @param isFirstServe - Whether the point was played on a first serve (optional)
+   * @param faults - Serve faults before the point, when the serve sequence was recorded (optional)
+   * @param rally - Rally information used for net and baseline stats (optional)
+   * @param shot - The final shot, counted by stroke (optional)
    */
   recordPoint(
     winnerId: string,
@@ -619,7 +813,10 @@ export class StatisticsManager {
     outcome: PointOutcome,
     serverId: string,
     scorerId?: string,
-    isFirstServe?: boolean
+    isFirstServe?: boolean,
+    faults?: number,
+    rally?: RallyInfo,
+    shot?: ShotInfo
   ): void {
     // Update winner stats
     const winnerStats = this.participantStats.get(winnerId);
@@ -637,14 +834,24 @@ export class StatisticsManager {
             outcome,
             true,
             isServing,
-            isFirstServe
+            isFirstServe,
+            faults,
+            shot
           )
         );
       } else {
         // Singles or team aggregate
         this.participantStats.set(
           winnerId,
-          updateStats(winnerStats, outcome, true, isServing, isFirstServe)
+          updateStats(
+            winnerStats,
+            outcome,
+            true,
+            isServing,
+            isFirstServe,
+            faults,
+            shot
+          )
         );
       }
     }
@@ -673,16 +880,81 @@ export class StatisticsManager {
             outcome,
             false,
             isServing,
-            isFirstServe
+            isFirstServe,
+            faults,
+            shot
           )
         );
       } else {
         this.participantStats.set(
           loserId,
-          updateStats(loserStats, outcome, false, isServing, isFirstServe)
+          updateStats(
+            loserStats,
+            outcome,
+            false,
+            isServing,
+            isFirstServe,
+            faults,
+            shot
+          )
         );
       }
     }
+
+    if (rally) {
+      this.recordCourtPosition(winnerId, true, rally, scorerId);
+      this.recordCourtPosition(loserId, false, rally, scorerId);
+    }
+  }
+
+  /**
+   * Counts a net or baseline point for a participant from the rally.
+   *
+   * A side that approached the net played a net point, credited to each
+   * approaching player in doubles. Without approach information, a rally
+   * ending at the net is a net point for the winner (and their scorer), and
+   * one ending at the baseline is a baseline point for both sides. A side
+   * that stayed back on a charted rally played a baseline point.
+   */
+  private recordCourtPosition(
+    participantId: string,
+    won: boolean,
+    rally: RallyInfo,
+    scorerId?: string
+  ): void {
+    const stats = this.participantStats.get(participantId);
+    if (!stats) return;
+
+    const playerIds =
+      "playerStats" in stats ? Object.keys(stats.playerStats) : [participantId];
+
+    let netPlayers: string[];
+    let atBaseline: boolean;
+    if (rally.approaches) {
+      netPlayers = playerIds.filter((id) => rally.approaches!.includes(id));
+      atBaseline = netPlayers.length === 0;
+    } else if (rally.endLocation === "net") {
+      const scorer = scorerId && playerIds.includes(scorerId);
+      netPlayers = won ? (scorer ? [scorerId!] : playerIds) : [];
+      atBaseline = false;
+    } else {
+      netPlayers = [];
+      atBaseline = rally.endLocation === "baseline";
+    }
+
+    const atNet = netPlayers.length > 0;
+    if (!atNet && !atBaseline) return;
+
+    const updated = deepClone(stats);
+    countCourtPosition(updated, atNet, won);
+
+    if ("playerStats" in updated) {
+      for (const id of atNet ? netPlayers : playerIds) {
+        countCourtPosition(updated.playerStats[id], atNet, won);
+      }
+    }
+
+    this.participantStats.set(participantId, updated);
   }
 
   /**
@@ -725,9 +997,24 @@ export class StatisticsManager {
 
   /**
    * Restores statistics from a map.
+   *
+   * Statistics saved before stroke or serve placement tracking existed get
+   * empty counters.
    */
   restore(stats: Map<string, ParticipantStatistics | TeamStatistics>): void {
     this.participantStats = new Map(stats);
+    for (const participantStats of this.participantStats.values()) {
+      const all: ParticipantStatistics[] = [participantStats];
+      if ("playerStats" in participantStats) {
+        all.push(...Object.values(participantStats.playerStats));
+      }
+      for (const entry of all) {
+        if (!entry.strokes) entry.strokes = createEmptyStrokeStats();
+        if (!entry.servePlacement) {
+          entry.servePlacement = createEmptyServePlacementStats();
+        }
+      }
+    }
   }
 
   /**
@@ -766,6 +1053,46 @@ export class StatisticsManager {
     }
   }
 
+  /**
+   * Records where a serve in play landed.
+   *
+   * Updates the server's placement counts for the court and serve number
+   * (and their team if applicable).
+   *
+   * @param serverId - ID of the player who served
+   * @param court - Court the serve was hit to
+   * @param serveNumber - 1 for a first serve, 2 for a second serve
+   * @param placement - Where the serve landed
+   * @param won - Whether the server won the point
+   * @param ace - Whether the serve was an ace
+   */
+  recordServePlacement(
+    serverId: string,
+    court: CourtSide,
+    serveNumber: 1 | 2,
+    placement: ServePlacement,
+    won: boolean,
+    ace: boolean
+  ): void {
+    const participantId = this.findParticipantId(serverId);
+    if (!participantId) return;
+
+    const updated = deepClone(this.participantStats.get(participantId)!);
+    const targets: ParticipantStatistics[] = [updated];
+    if ("playerStats" in updated && updated.playerStats[serverId]) {
+      targets.push(updated.playerStats[serverId]);
+    }
+
+    for (const stats of targets) {
+      const counts = stats.servePlacement[court][serveNumber][placement];
+      counts.served++;
+      if (won) counts.pointsWon++;
+      if (ace) counts.aces++;
+    }
+
+    this.participantStats.set(participantId, updated);
+  }
+
   /**
    * Records a break point opportunity results.
    *
@@ -22,6 +22,8 @@ export interface Participant {
 export interface SinglesPlayer extends Participant {
   type: "player";
   position: 1 | 2;
+  ranking?: number;
+  country?: string;
 }
 
 /**
@@ -31,6 +33,8 @@ export interface TeamPlayer {
   id: string;
   name: string;
   position: "a" | "b";
+  ranking?: number;
+  country?: string;
 }
 
 /**
@@ -85,8 +89,16 @@ export interface ServingInfo {
   next?: string;
   rotation?: string[];
   index?: number;
+  serveNumber?: 1 | 2;
+  lets?: number;
+  court?: CourtSide;
 }
 
+/**
+ * A serve that did not start the rally: a fault or a let.
+ */
+export type ServeEvent = "fault" | "let";
+
 // ============================================================================
 // Point Outcome Types
 // ============================================================================
@@ -103,15 +115,81 @@ export enum PointOutcome {
   UnforcedError = "unforcedError",
   ForcedError = "forcedError",
   Regular = "regular",
+  Penalty = "penalty",
 }
 
 /**
  * Information about a rally.
+ *
+ * approaches lists the IDs of the players who came to the net during the
+ * point; it drives the net and baseline statistics.
  */
 export interface RallyInfo {
   shots: number;
   duration?: number;
   endLocation?: "net" | "baseline" | "out";
+  approaches?: string[];
+}
+
+/**
+ * Where a serve landed in the service box.
+ */
+export type ServePlacement = "wide" | "body" | "T";
+
+/**
+ * Strokes that can end a point.
+ */
+export enum Stroke {
+  Forehand = "forehand",
+  Backhand = "backhand",
+  Volley = "volley",
+  Overhead = "overhead",
+  DropShot = "dropShot",
+  Lob = "lob",
+}
+
+/**
+ * Direction of a shot.
+ */
+export type ShotDirection =
+  | "crossCourt"
+  | "downTheLine"
+  | "insideOut"
+  | "insideIn"
+  | "middle";
+
+/**
+ * Where an error landed.
+ */
+export type ShotErrorType = "net" | "long" | "wide";
+
+/**
+ * The final shot of a point. error is only recorded for error outcomes.
+ */
+export interface ShotInfo {
+  stroke: Stroke;
+  direction?: ShotDirection;
+  error?: ShotErrorType;
+}
+
+/**
+ * Description of a point passed to scorePoint.
+ *
+ * Serve details default to the faults and lets recorded with
+ * recordFault/recordLet when omitted, and timestamp to the current time.
+ */
+export interface PointInput {
+  winner: ParticipantPosition;
+  outcome?: PointOutcome;
+  scorer?: string;
+  isFirstServe?: boolean;
+  fault?: number;
+  lets?: number;
+  placement?: ServePlacement;
+  rally?: RallyInfo;
+  shot?: ShotInfo;
+  tags?: string[];
+  timestamp?: Date;
 }
 
 // ============================================================================
@@ -167,6 +245,33 @@ export interface ParticipantStatistics {
     baselinePointsWon: number;
     baselinePointsPlayed: number;
   };
+
+  // Rally stats broken down by the stroke that ended the point
+  strokes: Record<Stroke, StrokeStatistics>;
+
+  // Serve placement by court and serve number
+  servePlacement: Record<
+    CourtSide,
+    Record<1 | 2, Record<ServePlacement, ServePlacementStatistics>>
+  >;
+}
+
+/**
+ * Serves in play to one spot, and the points and aces they produced.
+ */
+export interface ServePlacementStatistics {
+  served: number;
+  pointsWon: number;
+  aces: number;
+}
+
+/**
+ * Winners and errors hit with one stroke.
+ */
+export interface StrokeStatistics {
+  winners: number;
+  unforcedErrors: number;
+  forcedErrors: number;
 }
 
 /**
@@ -191,20 +296,218 @@ export interface MatchFormat {
   finalSetTiebreak: boolean;
   noAdScoring?: boolean;
   shortSets?: boolean;
+  gamesPerSet?: number;
+  tiebreakPoints?: number;
+  matchTiebreak?: boolean;
+  matchTiebreakPoints?: number;
+  finalSetTiebreakAt?: number;
+  finalSetTiebreakPoints?: number;
+  challengesPerSet?: number;
+}
+
+/**
+ * Scoring rules for a single set, resolved from the match format.
+ */
+export interface SetFormat {
+  gamesToWin: number;
+  tiebreakAt: number | null;
+  tiebreakPoints: number;
+  matchTiebreak: boolean;
+}
+
+/**
+ * Choice made by the winner of the coin toss.
+ */
+export type TossChoice = "serve" | "receive" | "side" | "defer";
+
+/**
+ * Result of the pre-match coin toss.
+ */
+export interface CoinToss {
+  winner: ParticipantPosition;
+  choice: TossChoice;
+  firstServer: ParticipantPosition;
+  firstServers?: { 1: TeamPlayerPosition; 2: TeamPlayerPosition };
+  ends?: { 1: CourtEnd; 2: CourtEnd };
+}
+
+/**
+ * Details of a coin toss that are not decided by the choice.
+ */
+export interface TossOptions {
+  firstServer?: ParticipantPosition;
+  firstServers?: { 1: TeamPlayerPosition; 2: TeamPlayerPosition };
+  ends?: { 1: CourtEnd; 2: CourtEnd };
+}
+
+/**
+ * Code violations an umpire can issue.
+ */
+export type ViolationType =
+  | "time"
+  | "coaching"
+  | "racquetAbuse"
+  | "ballAbuse"
+  | "audibleObscenity"
+  | "visibleObscenity"
+  | "verbalAbuse"
+  | "physicalAbuse"
+  | "unsportsmanlikeConduct";
+
+/**
+ * Penalties on the code violation ladder.
+ */
+export type PenaltyType = "warning" | "point" | "game" | "default";
+
+/**
+ * A code violation and the penalty applied for it, anchored to the number
+ * of points played before it.
+ */
+export interface CodeViolation {
+  participant: ParticipantPosition;
+  playerId?: string;
+  type: ViolationType;
+  penalty: PenaltyType;
+  set: number;
+  game: number;
+  pointIndex: number;
+  timestamp?: Date;
+}
+
+/**
+ * The player who committed a violation, and a penalty that overrides the
+ * ladder.
+ */
+export interface ViolationOptions {
+  playerId?: string;
+  penalty?: PenaltyType;
 }
 
 /**
  * Match metadata.
+ *
+ * duration is the playing time in milliseconds, excluding suspensions.
  */
 export interface MatchMeta {
   matchType: "singles" | "doubles" | "mixed-doubles";
   format: MatchFormat;
-  status: "in-progress" | "completed" | "retired" | "walkover";
+  status: MatchStatus;
   duration?: number;
   surface?: "hard" | "clay" | "grass" | "indoor";
   tournament?: string;
   round?: string;
   date?: Date;
+  toss?: CoinToss;
+  ending?: MatchEnding;
+  clock?: MatchClock;
+}
+
+/**
+ * Start and end times of the match and the stoppages in between.
+ *
+ * setStartTime is when the set in progress started.
+ */
+export interface MatchClock {
+  startTime?: Date;
+  endTime?: Date;
+  setStartTime?: Date;
+  suspensions: Suspension[];
+}
+
+/**
+ * A stoppage in play, such as a rain delay. Open while end is unset.
+ *
+ * pointIndex is the number of points played before it.
+ */
+export interface Suspension {
+  start: Date;
+  end?: Date;
+  reason?: string;
+  pointIndex: number;
+}
+
+/**
+ * A line-call challenge.
+ *
+ * A successful challenge overturns the call; its remedy says whether the
+ * point was replayed or awarded to the challenger. pointIndex is the number
+ * of points played before it.
+ */
+export interface Challenge {
+  participant: ParticipantPosition;
+  playerId?: string;
+  successful: boolean;
+  remedy?: "replay" | "award";
+  set: number;
+  game: number;
+  tiebreak: boolean;
+  pointIndex: number;
+  timestamp: Date;
+}
+
+/**
+ * Challenge totals for a participant, with those left in the current set.
+ */
+export interface ChallengeStatistics {
+  made: number;
+  successful: number;
+  remaining: number;
+}
+
+/**
+ * How a challenge corrects the score, and who made it in doubles.
+ */
+export interface ChallengeOptions {
+  remedy?: "replay" | "award";
+  outcome?: PointOutcome;
+  playerId?: string;
+}
+
+/**
+ * Events that stop play without changing the score.
+ */
+export type MatchEventType =
+  | "medicalTimeout"
+  | "toiletBreak"
+  | "attireBreak"
+  | "ballChange"
+  | "crowdDelay"
+  | "other";
+
+/**
+ * A non-scoring event, anchored to the number of points played before it.
+ *
+ * duration is in milliseconds.
+ */
+export interface MatchEvent {
+  type: MatchEventType;
+  pointIndex: number;
+  timestamp: Date;
+  participant?: ParticipantPosition;
+  playerId?: string;
+  duration?: number;
+  note?: string;
+}
+
+/**
+ * Details of a non-scoring event as it is recorded.
+ */
+export interface MatchEventOptions {
+  participant?: ParticipantPosition;
+  playerId?: string;
+  duration?: number;
+  note?: string;
+  timestamp?: Date;
+}
+
+/**
+ * How a match ended before it was played out, and who ended it.
+ */
+export interface MatchEnding {
+  status: "retired" | "walkover" | "defaulted";
+  participant: ParticipantPosition;
+  reason?: string;
+  timestamp?: Date;
 }
 
 /**
@@ -228,17 +531,29 @@ export interface UnifiedMatchSummary {
   currentGame: number;
   setHistory: SetSummary[];
   currentSetGames: GameSummary[];
+  ends: { 1: CourtEnd; 2: CourtEnd };
+  changeover?: Changeover;
+  violations: CodeViolation[];
+  events: MatchEvent[];
+  challenges: Challenge[];
+  challengeStats: { 1: ChallengeStatistics; 2: ChallengeStatistics };
 }
 
 /**
  * Summary of a completed set.
+ *
+ * duration is the playing time in milliseconds, excluding suspensions.
  */
 export interface SetSummary {
   winner: 1 | 2;
   score: [number, number];
+  startTime?: Date;
+  endTime?: Date;
   duration?: number;
   games: GameSummary[];
   tiebreak?: TiebreakSummary;
+  matchTiebreak?: boolean;
+  servingOrder?: string[];
 }
 
 /**
@@ -251,6 +566,8 @@ export interface GameSummary {
   points: PointSummary[];
   breakPoint?: boolean;
   deuce?: boolean;
+  changeover?: Changeover;
+  penalty?: boolean;
 }
 
 /**
@@ -271,12 +588,70 @@ export interface PointSummary {
   outcome: PointOutcome;
   server: string;
   scorer?: string;
+  isFirstServe?: boolean;
   fault?: number;
+  lets?: number;
+  court?: CourtSide;
+  placement?: ServePlacement;
   rally?: RallyInfo;
+  shot?: ShotInfo;
+  tags?: string[];
+  decidingPoint?: DecidingPointChoice;
+  changeover?: Changeover;
   timestamp?: Date;
   score: [number | string, number | string];
 }
 
+/**
+ * A break in play after a game, set or tiebreak point.
+ *
+ * "changeover" is the seated break after odd games, "end-change" an end
+ * change without a rest (after the first game of a set and every six points
+ * in a tiebreak), and "set-break" the break at the end of a set, which only
+ * changes ends when the set had an odd number of games.
+ */
+export interface Changeover {
+  type: "changeover" | "end-change" | "set-break";
+  changeEnds: boolean;
+}
+
+/**
+ * Milestones a match sends to listeners added with on, and what each
+ * carries.
+ *
+ * A break is a service game won by the receiver. A changeover follows the
+ * game or tiebreak point it comes after. matchComplete carries the ending
+ * when the match ended early.
+ */
+export interface MatchMilestones {
+  point: { point: PointSummary };
+  game: { game: GameSummary; set: number };
+  break: { game: GameSummary; set: number };
+  set: { set: SetSummary; setNumber: number };
+  tiebreakStart: { set: number; matchTiebreak: boolean };
+  changeover: {
+    changeover: Changeover;
+    game?: GameSummary;
+    point?: PointSummary;
+  };
+  matchComplete: { winner: ParticipantPosition; ending?: MatchEnding };
+}
+
+/**
+ * A listener for one kind of match milestone.
+ */
+export type MatchMilestoneListener<K extends keyof MatchMilestones> = (
+  milestone: MatchMilestones[K]
+) => void;
+
+/**
+ * The receiving side's choice for a no-ad deciding point.
+ */
+export interface DecidingPointChoice {
+  court: CourtSide;
+  receiverId?: string;
+}
+
 // ============================================================================
 // Match Configuration Types
 // ============================================================================
@@ -336,7 +711,23 @@ export type TeamPlayerPosition = "a" | "b";
 /**
  * Match status.
  */
-export type MatchStatus = "in-progress" | "completed" | "retired" | "walkover";
+export type MatchStatus =
+  | "in-progress"
+  | "completed"
+  | "retired"
+  | "walkover"
+  | "defaulted"
+  | "suspended";
+
+/**
+ * Side of the court a point is served to.
+ */
+export type CourtSide = "deuce" | "ad";
+
+/**
+ * End of the court a participant is playing from.
+ */
+export type CourtEnd = "near" | "far";
 
 /**
  * Court surface type.
@@ -428,4 +819,62 @@ export interface SerializedMatch {
   gameScores: [number, number];
   pointScores: [number | string, number | string];
   stats?: [string, ParticipantStatistics | TeamStatistics][];
+  toss?: CoinToss;
+  pendingServe?: ServeEvent[];
+  violations?: CodeViolation[];
+  ending?: MatchEnding;
+  clock?: MatchClock;
+  events?: MatchEvent[];
+  challenges?: Challenge[];
+  redoStack?: PointSummary[];
+  inputs?: MatchInput[];
 }
+
+/**
+ * An input to a match, as kept in its input log.
+ *
+ * Each input is a call to a TennisMatch method with its arguments, such as
+ * scorePoint ("point") or removePoint ("undo"), and the time it was made.
+ * TennisMatch.replay rebuilds the match from its inputs.
+ */
+export type MatchInput = { timestamp: Date } & (
+  | { type: "point"; point: PointInput }
+  | { type: "fault" }
+  | { type: "let" }
+  | {
+      type: "toss";
+      winner: ParticipantPosition;
+      choice: TossChoice;
+      options?: TossOptions;
+    }
+  | {
+      type: "servingOrder";
+      firstServers: { 1?: TeamPlayerPosition; 2?: TeamPlayerPosition };
+    }
+  | { type: "decidingPointChoice"; court: CourtSide; receiverId?: string }
+  | {
+      type: "violation";
+      participant: ParticipantPosition;
+      violation: ViolationType;
+      options?: ViolationOptions;
+    }
+  | {
+      type: "retirement" | "walkover" | "default";
+      participant: ParticipantPosition;
+      reason?: string;
+    }
+  | { type: "start" | "resume" | "end"; time?: Date }
+  | { type: "suspend"; reason?: string; time?: Date }
+  | { type: "event"; event: MatchEventType; options?: MatchEventOptions }
+  | {
+      type: "challenge";
+      participant: ParticipantPosition;
+      successful: boolean;
+      options?: ChallengeOptions;
+    }
+  | { type: "undo" }
+  | { type: "redo" }
+  | { type: "edit"; index: number; changes: Partial<PointInput> }
+  | { type: "insert"; index: number; point: PointInput }
+  | { type: "delete"; index: number }
+);
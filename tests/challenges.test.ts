@@ -0,0 +1,238 @@
+import { TennisMatch, PointOutcome } from "../src";
+import { playGame, playSet, playToTiebreak } from "./helpers";
+
+describe("Challenges", () => {
+  let match: TennisMatch;
+
+  beforeEach(() => {
+    match = new TennisMatch("Player A", "Player B", 3);
+  });
+
+  describe("Allowance", () => {
+    it("should allow three unsuccessful challenges per set", () => {
+      match.recordChallenge(1, false);
+      match.recordChallenge(1, true);
+      match.recordChallenge(1, false);
+      match.recordChallenge(1, false);
+
+      expect(match.getMatchSummary().challengeStats[1]).toEqual({
+        made: 4,
+        successful: 1,
+        remaining: 0,
+      });
+      expect(() => match.recordChallenge(1, true)).toThrow(
+        "Participant 1 has no challenges left"
+      );
+      expect(match.getMatchSummary().challengeStats[2].remaining).toBe(3);
+    });
+
+    it("should reset the allowance each set", () => {
+      for (let i = 0; i < 3; i++) match.recordChallenge(2, false);
+      for (let i = 0; i < 6; i++) playGame(match, 1);
+
+      expect(match.getMatchSummary().challengeStats[2]).toEqual({
+        made: 3,
+        successful: 0,
+        remaining: 3,
+      });
+    });
+
+    it("should add a challenge in a tiebreak", () => {
+      for (let i = 0; i < 3; i++) match.recordChallenge(1, false);
+      playToTiebreak(match);
+
+      expect(match.getMatchSummary().challengeStats[1].remaining).toBe(1);
+      expect(match.getMatchSummary().challengeStats[2].remaining).toBe(4);
+
+      const challenge = match.recordChallenge(1, false);
+      expect(challenge!.tiebreak).toBe(true);
+      expect(match.getMatchSummary().challengeStats[1].remaining).toBe(0);
+    });
+
+    it("should use the allowance from the match format", () => {
+      const custom = new TennisMatch("Player A", "Player B", {
+        sets: 3,
+        tiebreakAt: 6,
+        finalSetTiebreak: true,
+        challengesPerSet: 2,
+      });
+      expect(custom.getMatchSummary().challengeStats[1].remaining).toBe(2);
+    });
+  });
+
+  describe("Overturned Calls", () => {
+    it("should replay the point", () => {
+      match.scorePoint(1);
+      match.scorePoint(2);
+
+      const challenge = match.recordChallenge(1, true, { remedy: "replay" });
+
+      expect(challenge!.remedy).toBe("replay");
+      const summary = match.getMatchSummary();
+      expect(summary.score.points).toEqual({ type: "game", values: [15, 0] });
+      expect(summary.challengeStats[1].remaining).toBe(3);
+    });
+
+    it("should award the point to the challenger", () => {
+      match.scorePoint(2);
+
+      match.recordChallenge(1, true, { remedy: "award" });
+
+      expect(match.getMatchSummary().score.points).toEqual({
+        type: "game",
+        values: [15, 0],
+      });
+      expect(match.toJSON().currentGamePoints).toHaveLength(1);
+    });
+
+    it("should turn a fault call into an ace", () => {
+      match.recordFault();
+
+      match.recordChallenge(1, true, {
+        remedy: "award",
+        outcome: PointOutcome.Ace,
+      });
+
+      const point = match.toJSON().currentGamePoints[0];
+      expect(point.winner).toBe(1);
+      expect(point.outcome).toBe(PointOutcome.Ace);
+      expect(point.fault).toBeUndefined();
+    });
+
+    it("should replay a first serve called out", () => {
+      match.recordFault();
+      match.recordChallenge(1, true, { remedy: "replay" });
+      expect(match.getMatchSummary().score.server.serveNumber).toBe(1);
+    });
+
+    it("should correct the score across a game boundary", () => {
+      for (let i = 0; i < 3; i++) match.scorePoint(1);
+      match.scorePoint(2);
+      match.scorePoint(1); // Game, Player A
+
+      const challenge = match.recordChallenge(2, true, { remedy: "award" });
+
+      expect(challenge!.game).toBe(1);
+      const summary = match.getMatchSummary();
+      expect(summary.score.games).toEqual([0, 0]);
+      expect(summary.score.points).toEqual({ type: "game", values: [40, 30] });
+    });
+
+    it("should reject remedies that do not apply", () => {
+      expect(() => match.recordChallenge(1, true, { remedy: "award" })).toThrow(
+        "There is no call to overturn"
+      );
+
+      match.scorePoint(1);
+      expect(() =>
+        match.recordChallenge(1, false, { remedy: "replay" })
+      ).toThrow("Only a successful challenge can change the score");
+      expect(() => match.recordChallenge(1, true, { remedy: "award" })).toThrow(
+        "The challenger won the last point"
+      );
+      expect(match.getMatchSummary().challenges).toHaveLength(0);
+    });
+
+    it("should only let the server overturn a fault call", () => {
+      match.recordFault();
+
+      expect(() => match.recordChallenge(2, true, { remedy: "award" })).toThrow(
+        "Only the server can overturn a fault call"
+      );
+      expect(match.getMatchSummary().score.server.serveNumber).toBe(2);
+      expect(match.getMatchSummary().challenges).toHaveLength(0);
+    });
+
+    it("should not overturn a penalty point or game", () => {
+      match.issueViolation(1, "time"); // Warning
+      match.issueViolation(1, "time"); // Point penalty
+      expect(() => match.recordChallenge(1, true, { remedy: "award" })).toThrow(
+        "A penalty cannot be overturned by a challenge"
+      );
+
+      match.issueViolation(1, "time"); // Game penalty
+      expect(() =>
+        match.recordChallenge(1, true, { remedy: "replay" })
+      ).toThrow("A penalty cannot be overturned by a challenge");
+
+      const summary = match.getMatchSummary();
+      expect(summary.score.games).toEqual([0, 1]);
+      expect(summary.violations).toHaveLength(3);
+      expect(summary.challenges).toHaveLength(0);
+    });
+
+    it("should check the awarded outcome before changing the score", () => {
+      match.scorePoint(2);
+
+      expect(() =>
+        match.recordChallenge(1, true, {
+          remedy: "award",
+          outcome: PointOutcome.Penalty,
+        })
+      ).toThrow("Penalty points are awarded with issueViolation");
+      expect(() =>
+        match.recordChallenge(1, true, {
+          remedy: "award",
+          outcome: PointOutcome.DoubleFault,
+        })
+      ).toThrow(
+        'The challenger cannot win the point with the outcome "doubleFault"'
+      );
+
+      const summary = match.getMatchSummary();
+      expect(summary.score.points.values).toEqual([0, 15]);
+      expect(summary.challenges).toHaveLength(0);
+      expect(match.getInputLog()).toHaveLength(1);
+    });
+  });
+
+  it("should only overturn the winning point once the match is complete", () => {
+    const bestOfOne = new TennisMatch("Player A", "Player B", 1);
+    playSet(bestOfOne, 1);
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect(bestOfOne.recordChallenge(2, false)).toBeUndefined();
+    expect(bestOfOne.recordChallenge(2, true)).toBeUndefined();
+    expect(warn).toHaveBeenCalledWith("Match is already complete");
+    expect(bestOfOne.getMatchSummary().challengeStats[2].made).toBe(0);
+
+    bestOfOne.recordChallenge(2, true, { remedy: "award" });
+    const summary = bestOfOne.getMatchSummary();
+    expect(summary.score.winner).toBeUndefined();
+    expect(summary.score.points.values).toEqual([40, 15]);
+    expect(summary.challengeStats[2].made).toBe(1);
+    warn.mockRestore();
+  });
+
+  it("should not accept challenges after a match ends early", () => {
+    match.scorePoint(2);
+    match.recordRetirement(1);
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect(match.recordChallenge(1, true, { remedy: "award" })).toBeUndefined();
+    expect(match.getMatchSummary().challenges).toHaveLength(0);
+    warn.mockRestore();
+  });
+
+  it("should record the challenging player in doubles", () => {
+    const doubles = new TennisMatch(["A1", "A2"], ["B1", "B2"], 3);
+    const team1 = doubles.getMatchSummary().participants[1].info as any;
+
+    const challenge = doubles.recordChallenge(1, false, {
+      playerId: team1.players.a.id,
+    });
+    expect(challenge!.playerId).toBe(team1.players.a.id);
+  });
+
+  it("should survive serialization", () => {
+    match.recordChallenge(2, false);
+    match.recordChallenge(2, true);
+
+    const restored = TennisMatch.fromJSON(match.toJSON());
+    expect(restored.getMatchSummary().challengeStats[2]).toEqual({
+      made: 2,
+      successful: 1,
+      remaining: 2,
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { TennisMatch } from "../src";
+import { playGame, playGames } from "./helpers";
+
+describe("Changeovers and Ends", () => {
+  let match: TennisMatch;
+
+  beforeEach(() => {
+    match = new TennisMatch("Player A", "Player B", 3);
+  });
+
+  it("should start participant 1 at the near end", () => {
+    const summary = match.getMatchSummary();
+    expect(summary.ends).toEqual({ 1: "near", 2: "far" });
+    expect(summary.changeover).toBeUndefined();
+  });
+
+  it("should change ends without a rest after the first game", () => {
+    playGame(match, 1);
+
+    const summary = match.getMatchSummary();
+    expect(summary.ends).toEqual({ 1: "far", 2: "near" });
+    expect(summary.changeover).toEqual({
+      type: "end-change",
+      changeEnds: true,
+    });
+    expect(summary.currentSetGames[0].changeover!.type).toBe("end-change");
+  });
+
+  it("should clear the changeover once play resumes", () => {
+    playGame(match, 1);
+    match.scorePoint(2);
+
+    expect(match.getMatchSummary().changeover).toBeUndefined();
+  });
+
+  it("should only change ends after odd games", () => {
+    playGames(match, "12");
+    let summary = match.getMatchSummary();
+    expect(summary.changeover).toBeUndefined();
+    expect(summary.ends).toEqual({ 1: "far", 2: "near" });
+
+    playGame(match, 1);
+    summary = match.getMatchSummary();
+    expect(summary.changeover).toEqual({
+      type: "changeover",
+      changeEnds: true,
+    });
+    expect(summary.ends).toEqual({ 1: "near", 2: "far" });
+  });
+
+  it("should change ends at a set break after an odd set total", () => {
+    // 6-3: nine games, ends change with the set break
+    playGames(match, "121211211");
+
+    const summary = match.getMatchSummary();
+    expect(summary.setHistory[0].score).toEqual([6, 3]);
+    expect(summary.changeover).toEqual({ type: "set-break", changeEnds: true });
+    expect(summary.ends).toEqual({ 1: "far", 2: "near" });
+  });
+
+  it("should keep ends at a set break after an even set total", () => {
+    // 6-0: six games, ends change after the first game of the next set
+    playGames(match, "111111");
+
+    let summary = match.getMatchSummary();
+    expect(summary.changeover).toEqual({
+      type: "set-break",
+      changeEnds: false,
+    });
+    expect(summary.ends).toEqual({ 1: "far", 2: "near" });
+
+    playGame(match, 2);
+    summary = match.getMatchSummary();
+    expect(summary.changeover!.type).toBe("end-change");
+    expect(summary.ends).toEqual({ 1: "near", 2: "far" });
+  });
+
+  it("should change ends every six points in a tiebreak", () => {
+    playGames(match, "121212121212");
+    expect(match.getMatchSummary().ends).toEqual({ 1: "near", 2: "far" });
+
+    for (let i = 0; i < 5; i++) {
+      match.scorePoint(i % 2 === 0 ? 1 : 2);
+    }
+    expect(match.getMatchSummary().changeover).toBeUndefined();
+
+    match.scorePoint(2);
+    let summary = match.getMatchSummary();
+    expect(summary.changeover).toEqual({
+      type: "end-change",
+      changeEnds: true,
+    });
+    expect(summary.ends).toEqual({ 1: "far", 2: "near" });
+
+    // 7-3 ends the tiebreak and the set, changing ends again
+    for (let i = 0; i < 4; i++) {
+      match.scorePoint(1);
+    }
+    summary = match.getMatchSummary();
+    expect(summary.setHistory.length).toBe(1);
+    expect(summary.changeover).toEqual({ type: "set-break", changeEnds: true });
+    expect(summary.ends).toEqual({ 1: "near", 2: "far" });
+  });
+
+  it("should not mark a changeover after the final game", () => {
+    playGames(match, "111111111111");
+
+    const summary = match.getMatchSummary();
+    expect(summary.score.winner).toBe(1);
+    expect(summary.changeover).toBeUndefined();
+  });
+
+  it("should restore ends on undo", () => {
+    playGame(match, 1);
+    expect(match.getMatchSummary().ends).toEqual({ 1: "far", 2: "near" });
+
+    match.removePoint();
+    const summary = match.getMatchSummary();
+    expect(summary.ends).toEqual({ 1: "near", 2: "far" });
+    expect(summary.changeover).toBeUndefined();
+  });
+
+  it("should take starting ends from the toss", () => {
+    match.recordToss(1, "side", {
+      firstServer: 2,
+      ends: { 1: "far", 2: "near" },
+    });
+    expect(match.getMatchSummary().ends).toEqual({ 1: "far", 2: "near" });
+
+    playGame(match, 2);
+    expect(match.getMatchSummary().ends).toEqual({ 1: "near", 2: "far" });
+  });
+});
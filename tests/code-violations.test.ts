@@ -0,0 +1,227 @@
+import { TennisMatch, PointOutcome } from "../src";
+import { createMatch, playSet, playToTiebreak } from "./helpers";
+
+describe("Code Violations", () => {
+  let match: TennisMatch;
+
+  beforeEach(() => {
+    match = new TennisMatch("Player A", "Player B", 3);
+  });
+
+  it("should start the ladder with a warning", () => {
+    const violation = match.issueViolation(1, "racquetAbuse");
+
+    expect(violation!.penalty).toBe("warning");
+    const summary = match.getMatchSummary();
+    expect(summary.score.points).toEqual({ type: "game", values: [0, 0] });
+    expect(summary.violations).toHaveLength(1);
+    expect(summary.violations[0]).toMatchObject({
+      participant: 1,
+      type: "racquetAbuse",
+      penalty: "warning",
+      set: 1,
+      game: 1,
+    });
+  });
+
+  it("should award a penalty point on the second violation", () => {
+    match.issueViolation(2, "time");
+    const violation = match.issueViolation(2, "coaching");
+
+    expect(violation!.penalty).toBe("point");
+    const summary = match.getMatchSummary();
+    expect(summary.score.points).toEqual({ type: "game", values: [15, 0] });
+
+    const point = match.toJSON().currentGamePoints[0];
+    expect(point.winner).toBe(1);
+    expect(point.outcome).toBe(PointOutcome.Penalty);
+  });
+
+  it("should keep separate ladders for each participant", () => {
+    match.issueViolation(1, "time");
+    const violation = match.issueViolation(2, "time");
+    expect(violation!.penalty).toBe("warning");
+  });
+
+  it("should award the game on the third violation", () => {
+    match.scorePoint(1);
+    match.scorePoint(1);
+    match.issueViolation(1, "audibleObscenity");
+    match.issueViolation(1, "audibleObscenity");
+    match.issueViolation(1, "audibleObscenity");
+
+    const summary = match.getMatchSummary();
+    expect(summary.score.games).toEqual([0, 1]);
+    expect(summary.score.points).toEqual({ type: "game", values: [0, 0] });
+
+    const game = summary.currentSetGames[0];
+    expect(game.winner).toBe(2);
+    expect(game.penalty).toBe(true);
+    // The played points and the penalty point stay in the history
+    expect(game.points.map((p) => p.outcome)).toEqual([
+      PointOutcome.Regular,
+      PointOutcome.Regular,
+      PointOutcome.Penalty,
+    ]);
+  });
+
+  it("should decide a tiebreak with a game penalty before its first point", () => {
+    const fixed = createMatch();
+    fixed.issueViolation(1, "time"); // Warning
+    fixed.issueViolation(1, "time"); // Point penalty
+    // Hold serve to 6-6
+    playToTiebreak(fixed);
+    fixed.issueViolation(1, "time"); // Game penalty
+
+    const summary = fixed.getMatchSummary();
+    expect(summary.matchScore).toBe("6-7(0), 0-0");
+    expect(summary.setHistory[0].tiebreak).toMatchObject({
+      winner: 2,
+      points: [],
+    });
+    // Player 1 would have served the tiebreak, so player 2 serves first
+    expect(summary.score.server.current).toBe("p2");
+    expect(summary.violations).toHaveLength(3);
+
+    fixed.removePoint();
+    expect(fixed.getMatchScoreString()).toBe("6-6");
+    expect(fixed.getMatchSummary().score.points.type).toBe("tiebreak");
+    expect(fixed.getMatchSummary().score.server.current).toBe("p1");
+  });
+
+  it("should decide a match tiebreak with a game penalty before its first point", () => {
+    const short = new TennisMatch("Player A", "Player B", {
+      sets: 3,
+      matchTiebreak: true,
+    });
+    playSet(short, 1);
+    playSet(short, 2);
+    expect(short.getMatchSummary().score.points.type).toBe("tiebreak");
+
+    short.issueViolation(1, "time", { penalty: "game" });
+
+    const summary = short.getMatchSummary();
+    expect(summary.score.winner).toBe(2);
+    expect(summary.meta.status).toBe("completed");
+    expect(summary.setHistory[2]).toMatchObject({
+      winner: 2,
+      matchTiebreak: true,
+    });
+  });
+
+  it("should default the participant on the fourth violation", () => {
+    for (let i = 0; i < 4; i++) {
+      match.issueViolation(2, "verbalAbuse");
+    }
+
+    const summary = match.getMatchSummary();
+    expect(summary.score.winner).toBe(1);
+    expect(summary.violations[3].penalty).toBe("default");
+    expect(summary.meta.status).toBe("defaulted");
+    expect(summary.meta.ending).toMatchObject({
+      status: "defaulted",
+      participant: 2,
+      reason: "Code violation: verbalAbuse",
+    });
+  });
+
+  it("should allow an immediate default", () => {
+    const violation = match.issueViolation(1, "physicalAbuse", {
+      penalty: "default",
+    });
+
+    expect(violation!.penalty).toBe("default");
+    expect(match.getMatchSummary().score.winner).toBe(2);
+  });
+
+  it("should not count penalties in the statistics", () => {
+    match.issueViolation(2, "time");
+    match.issueViolation(2, "time");
+    match.issueViolation(2, "time");
+
+    [1, 2].forEach((pos) => {
+      const stats = match.getMatchSummary().participants[pos as 1 | 2]
+        .stats as any;
+      expect(stats.pointsPlayed).toBe(0);
+      expect(stats.pointsWon).toBe(0);
+      expect(stats.serving.aces).toBe(0);
+      expect(stats.serving.serviceGamesPlayed).toBe(0);
+      expect(stats.rally.winners).toBe(0);
+    });
+  });
+
+  it("should record the player in doubles", () => {
+    const doubles = new TennisMatch(["A1", "A2"], ["B1", "B2"], 3);
+    const team1 = doubles.getMatchSummary().participants[1].info as any;
+    const team2 = doubles.getMatchSummary().participants[2].info as any;
+
+    const violation = doubles.issueViolation(1, "ballAbuse", {
+      playerId: team1.players.b.id,
+    });
+    expect(violation!.playerId).toBe(team1.players.b.id);
+
+    expect(() =>
+      doubles.issueViolation(1, "ballAbuse", { playerId: team2.players.a.id })
+    ).toThrow(`Player ${team2.players.a.id} is not on the penalised side`);
+  });
+
+  it("should not accept penalty points through scorePoint", () => {
+    expect(() => match.scorePoint(1, PointOutcome.Penalty)).toThrow(
+      "Penalty points are awarded with issueViolation"
+    );
+  });
+
+  describe("Undo", () => {
+    it("should remove a penalty point and its violation", () => {
+      match.issueViolation(1, "time");
+      match.issueViolation(1, "time");
+
+      match.removePoint();
+
+      const summary = match.getMatchSummary();
+      expect(summary.score.points).toEqual({ type: "game", values: [0, 0] });
+      expect(summary.violations.map((v) => v.penalty)).toEqual(["warning"]);
+    });
+
+    it("should restore the game interrupted by a game penalty", () => {
+      match.scorePoint(1);
+      match.scorePoint(2);
+      for (let i = 0; i < 3; i++) {
+        match.issueViolation(2, "time");
+      }
+      expect(match.getMatchSummary().score.games).toEqual([1, 0]);
+
+      match.removePoint();
+
+      const summary = match.getMatchSummary();
+      expect(summary.score.games).toEqual([0, 0]);
+      expect(summary.score.points).toEqual({
+        type: "game",
+        values: [30, 15],
+      });
+      expect(summary.score.server.current).toBe(
+        summary.participants[1].info.id
+      );
+      expect(summary.violations).toHaveLength(2);
+    });
+
+    it("should undo a default", () => {
+      match.scorePoint(1);
+      match.issueViolation(1, "physicalAbuse", { penalty: "default" });
+
+      match.removePoint();
+
+      const summary = match.getMatchSummary();
+      expect(summary.score.winner).toBeUndefined();
+      expect(summary.score.points).toEqual({ type: "game", values: [15, 0] });
+      expect(summary.violations).toHaveLength(0);
+    });
+  });
+
+  it("should survive serialization", () => {
+    match.issueViolation(1, "coaching");
+
+    const restored = TennisMatch.fromJSON(match.toJSON());
+    expect(restored.issueViolation(1, "coaching")!.penalty).toBe("point");
+  });
+});
@@ -0,0 +1,137 @@
+import { TennisMatch, PointOutcome, MatchConfig } from "../src";
+
+describe("Coin Toss", () => {
+  describe("Singles", () => {
+    let match: TennisMatch;
+    let p1Id: string;
+    let p2Id: string;
+
+    beforeEach(() => {
+      match = new TennisMatch("Player A", "Player B", 3);
+      const summary = match.getMatchSummary();
+      p1Id = summary.participants[1].info.id;
+      p2Id = summary.participants[2].info.id;
+    });
+
+    it("should let the toss winner serve", () => {
+      match.recordToss(2, "serve");
+
+      const summary = match.getMatchSummary();
+      expect(summary.score.server.current).toBe(p2Id);
+      expect(summary.meta.toss).toEqual({
+        winner: 2,
+        choice: "serve",
+        firstServer: 2,
+      });
+    });
+
+    it("should let the toss winner receive", () => {
+      match.recordToss(1, "receive");
+      expect(match.getMatchSummary().score.server.current).toBe(p2Id);
+    });
+
+    it("should take the first server from the other side after a side choice", () => {
+      match.recordToss(1, "side", { firstServer: 2 });
+      expect(match.getMatchSummary().score.server.current).toBe(p2Id);
+    });
+
+    it("should take the first server after a deferral", () => {
+      match.recordToss(2, "defer", { firstServer: 1 });
+
+      const summary = match.getMatchSummary();
+      expect(summary.score.server.current).toBe(p1Id);
+      expect(summary.meta.toss!.choice).toBe("defer");
+    });
+
+    it("should require the first server for side and defer choices", () => {
+      expect(() => match.recordToss(1, "side")).toThrow();
+      expect(() => match.recordToss(1, "defer")).toThrow();
+    });
+
+    it("should reject a first server that contradicts the choice", () => {
+      expect(() => match.recordToss(1, "serve", { firstServer: 2 })).toThrow();
+    });
+
+    it("should reject a toss after the first point", () => {
+      match.scorePoint(1);
+      expect(() => match.recordToss(2, "serve")).toThrow();
+    });
+
+    it("should credit serve stats to the toss-selected server", () => {
+      match.recordToss(2, "serve");
+      match.scorePoint(2, PointOutcome.Ace);
+
+      const summary = match.getMatchSummary();
+      expect(summary.participants[2].stats.serving.aces).toBe(1);
+      expect(summary.participants[1].stats.serving.aces).toBe(0);
+    });
+
+    it("should store the toss in the serialized match", () => {
+      match.recordToss(2, "receive");
+      match.scorePoint(1);
+
+      const data = JSON.parse(JSON.stringify(match.toJSON()));
+      expect(data.toss).toEqual({
+        winner: 2,
+        choice: "receive",
+        firstServer: 1,
+      });
+
+      const restored = TennisMatch.fromJSON(data);
+      expect(restored.getMatchSummary().meta.toss).toEqual(data.toss);
+    });
+  });
+
+  describe("Doubles", () => {
+    it("should build the rotation from the toss", () => {
+      const match = new TennisMatch(["A1", "A2"], ["B1", "B2"], 3);
+      const summary = match.getMatchSummary();
+      const team1 = summary.participants[1].info as any;
+      const team2 = summary.participants[2].info as any;
+
+      match.recordToss(1, "receive", { firstServers: { 1: "b", 2: "a" } });
+
+      const after = match.getMatchSummary();
+      expect(after.score.server.rotation).toEqual([
+        team2.players.a.id,
+        team1.players.b.id,
+        team2.players.b.id,
+        team1.players.a.id,
+      ]);
+      expect(after.score.server.current).toBe(team2.players.a.id);
+      expect(after.meta.toss!.firstServers).toEqual({ 1: "b", 2: "a" });
+    });
+
+    it("should default each team's first server to player A", () => {
+      const match = new TennisMatch(["A1", "A2"], ["B1", "B2"], 3);
+      const team2 = match.getMatchSummary().participants[2].info as any;
+
+      match.recordToss(2, "serve");
+
+      expect(match.getMatchSummary().score.server.current).toBe(
+        team2.players.a.id
+      );
+    });
+  });
+
+  describe("Configured toss", () => {
+    const config: MatchConfig = {
+      matchType: "singles",
+      participants: {
+        1: { name: "Player A", id: "a" },
+        2: { name: "Player B", id: "b" },
+      },
+      format: { sets: 3, tiebreakAt: 6, finalSetTiebreak: true },
+      firstServer: "toss",
+    };
+
+    it("should require the toss before the first point", () => {
+      const match = TennisMatch.fromConfig(config);
+      expect(() => match.scorePoint(1)).toThrow();
+
+      match.recordToss(1, "receive");
+      match.scorePoint(1);
+      expect(match.getMatchSummary().score.server.current).toBe("b");
+    });
+  });
+});
@@ -159,6 +159,100 @@ describe("Doubles Match Tests", () => {
     });
   });
 
+  describe("Serving Order Between Sets", () => {
+    const winSet = (match: TennisMatch, team: 1 | 2) => {
+      for (let i = 0; i < 24; i++) {
+        match.scorePoint(team);
+      }
+    };
+
+    let match: TennisMatch;
+    let t1: any;
+    let t2: any;
+
+    beforeEach(() => {
+      match = new TennisMatch(["Alice", "Bob"], ["Charlie", "Diana"], 3);
+      const summary = match.getMatchSummary();
+      t1 = summary.participants[1].info;
+      t2 = summary.participants[2].info;
+    });
+
+    it("should let each team reselect its first server for the next set", () => {
+      winSet(match, 1);
+
+      // After six games the rotation moves on to team 1's player B
+      expect(match.getMatchSummary().score.server.current).toBe(
+        t1.players.b.id
+      );
+
+      match.setServingOrder({ 1: "a", 2: "b" });
+
+      const summary = match.getMatchSummary();
+      expect(summary.score.server.rotation).toEqual([
+        t1.players.a.id,
+        t2.players.b.id,
+        t1.players.b.id,
+        t2.players.a.id,
+      ]);
+      expect(summary.score.server.current).toBe(t1.players.a.id);
+    });
+
+    it("should keep a team's order when it is not reselected", () => {
+      winSet(match, 1);
+      match.setServingOrder({ 2: "a" });
+
+      expect(match.getMatchSummary().score.server.rotation).toEqual([
+        t1.players.b.id,
+        t2.players.a.id,
+        t1.players.a.id,
+        t2.players.b.id,
+      ]);
+    });
+
+    it("should record the order used in each set", () => {
+      winSet(match, 1);
+      match.setServingOrder({ 1: "b", 2: "a" });
+      winSet(match, 2);
+
+      const history = match.getMatchSummary().setHistory;
+      expect(history[0].servingOrder).toEqual([
+        t1.players.a.id,
+        t2.players.a.id,
+        t1.players.b.id,
+        t2.players.b.id,
+      ]);
+      expect(history[1].servingOrder).toEqual([
+        t1.players.b.id,
+        t2.players.a.id,
+        t1.players.a.id,
+        t2.players.b.id,
+      ]);
+    });
+
+    it("should restore the previous set's order on undo", () => {
+      winSet(match, 1);
+      match.setServingOrder({ 1: "b", 2: "a" });
+      match.scorePoint(1);
+      match.removePoint();
+      match.removePoint();
+
+      expect(match.getMatchSummary().score.server.rotation).toEqual([
+        t1.players.a.id,
+        t2.players.a.id,
+        t1.players.b.id,
+        t2.players.b.id,
+      ]);
+    });
+
+    it("should only allow changes between sets", () => {
+      match.scorePoint(1);
+      expect(() => match.setServingOrder({ 1: "b" })).toThrow();
+
+      const singles = new TennisMatch("Alice", "Bob", 3);
+      expect(() => singles.setServingOrder({ 1: "b" })).toThrow();
+    });
+  });
+
   describe("Individual Player Statistics", () => {
     it("should track points won by team", () => {
       const match = new TennisMatch(["Alice", "Bob"], ["Charlie", "Diana"], 3);
@@ -0,0 +1,124 @@
+import { TennisMatch, ParticipantPosition, SerializedMatch } from "../src";
+
+/**
+ * Start time for tests that run on fake timers.
+ */
+export const START = new Date("2026-06-01T10:00:00Z");
+export const MINUTE = 60 * 1000;
+
+// Twelve service holds: player/team 1 serves games 1, 3, 5, ... and 2 the rest
+export const HOLDS_TO_SIX_ALL = "121212121212";
+
+/**
+ * Gets the time the given number of minutes after START.
+ */
+export function minutesIn(minutes: number): Date {
+  return new Date(START.getTime() + minutes * MINUTE);
+}
+
+/**
+ * Moves the fake clock on by the given number of minutes.
+ */
+export function wait(minutes: number): void {
+  jest.setSystemTime(Date.now() + minutes * MINUTE);
+}
+
+/**
+ * Creates a singles match with fixed IDs (p1 and p2), so that matches can be
+ * compared.
+ */
+export function createMatch(sets = 3): TennisMatch {
+  return new TennisMatch(
+    { id: "p1", name: "Player A" },
+    { id: "p2", name: "Player B" },
+    sets
+  );
+}
+
+/**
+ * Creates a doubles match with fixed IDs: teams t1 (a1, b1) and t2 (a2, b2).
+ */
+export function createDoublesMatch(sets = 3): TennisMatch {
+  return new TennisMatch(
+    {
+      id: "t1",
+      players: { a: { id: "a1", name: "A1" }, b: { id: "b1", name: "B1" } },
+    },
+    {
+      id: "t2",
+      players: { a: { id: "a2", name: "A2" }, b: { id: "b2", name: "B2" } },
+    },
+    sets
+  );
+}
+
+/**
+ * Scores the same winner a number of times.
+ */
+export function scorePoints(
+  match: TennisMatch,
+  winner: ParticipantPosition,
+  count: number
+): void {
+  for (let i = 0; i < count; i++) {
+    match.scorePoint(winner);
+  }
+}
+
+/**
+ * Plays a game won to love by the given participant.
+ */
+export function playGame(
+  match: TennisMatch,
+  winner: ParticipantPosition
+): void {
+  scorePoints(match, winner, 4);
+}
+
+/**
+ * Plays a 6-0 set for the given participant.
+ */
+export function playSet(match: TennisMatch, winner: ParticipantPosition): void {
+  scorePoints(match, winner, 24);
+}
+
+/**
+ * Plays games won to love, given as a string of winners, e.g. "1122".
+ */
+export function playGames(match: TennisMatch, games: string): void {
+  for (const winner of games) {
+    playGame(match, Number(winner) as ParticipantPosition);
+  }
+}
+
+/**
+ * Plays points given as a string of winners, e.g. "1211".
+ */
+export function playPoints(match: TennisMatch, points: string): void {
+  for (const winner of points) {
+    match.scorePoint(Number(winner) as ParticipantPosition);
+  }
+}
+
+/**
+ * Plays twelve service holds to reach 6-6.
+ */
+export function playToTiebreak(match: TennisMatch): void {
+  playGames(match, HOLDS_TO_SIX_ALL);
+}
+
+/**
+ * Gets the serialized state of a match as it would be stored.
+ */
+export function getSavedData(match: TennisMatch): SerializedMatch {
+  return JSON.parse(JSON.stringify(match.toJSON()));
+}
+
+/**
+ * Gets the stored state of a match without its input log, which also
+ * records how the state was reached.
+ */
+export function getState(match: TennisMatch): Omit<SerializedMatch, "inputs"> {
+  const { inputs, ...state } = getSavedData(match);
+  return state;
+}
@@ -0,0 +1,149 @@
+import { TennisMatch } from "../src";
+import { START, MINUTE, minutesIn, playSet } from "./helpers";
+
+/**
+ * Moves the clock to the given number of minutes after START.
+ */
+function at(minutes: number): void {
+  jest.setSystemTime(minutesIn(minutes));
+}
+
+describe("Match Clock", () => {
+  let match: TennisMatch;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: START });
+    match = new TennisMatch("Player A", "Player B", 3);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should start the clock with the first point", () => {
+    expect(match.getMatchSummary().meta.duration).toBeUndefined();
+
+    match.scorePoint(1);
+    at(5);
+
+    const meta = match.getMatchSummary().meta;
+    expect(meta.clock!.startTime).toEqual(START);
+    expect(meta.duration).toBe(5 * MINUTE);
+  });
+
+  it("should time each set and stop at the winning point", () => {
+    match.startMatch(START);
+    at(30);
+    playSet(match, 1);
+    at(70);
+    playSet(match, 1);
+    at(90);
+
+    const summary = match.getMatchSummary();
+    expect(summary.setHistory.map((set) => set.duration)).toEqual([
+      30 * MINUTE,
+      40 * MINUTE,
+    ]);
+    expect(summary.setHistory[1].startTime).toEqual(minutesIn(30));
+    expect(summary.meta.clock!.endTime).toEqual(minutesIn(70));
+    expect(summary.meta.duration).toBe(70 * MINUTE);
+  });
+
+  it("should leave suspensions out of the playing time", () => {
+    match.startMatch();
+    at(20);
+    match.suspend("Rain");
+    expect(match.getMatchSummary().meta.status).toBe("suspended");
+    at(80);
+    match.resume();
+    at(90);
+    playSet(match, 2);
+
+    const summary = match.getMatchSummary();
+    expect(summary.meta.status).toBe("in-progress");
+    expect(summary.setHistory[0].duration).toBe(30 * MINUTE);
+    expect(summary.meta.duration).toBe(30 * MINUTE);
+    expect(summary.meta.clock!.suspensions).toEqual([
+      {
+        start: minutesIn(20),
+        end: minutesIn(80),
+        reason: "Rain",
+        pointIndex: 0,
+      },
+    ]);
+  });
+
+  it("should not allow points while play is suspended", () => {
+    match.startMatch();
+    match.suspend("Bad light");
+
+    expect(() => match.scorePoint(1)).toThrow("Play is suspended");
+    expect(() => match.resume()).not.toThrow();
+    expect(() => match.resume()).toThrow("Play is not suspended");
+  });
+
+  it("should reject clock events out of order", () => {
+    expect(() => match.suspend()).toThrow("The match has not started");
+    expect(() => match.endMatch()).toThrow("The match has not started");
+
+    match.startMatch();
+    expect(() => match.startMatch()).toThrow(
+      "The match clock has already started"
+    );
+    match.suspend();
+    expect(() => match.suspend()).toThrow("Play is already suspended");
+  });
+
+  it("should record an explicit end time", () => {
+    match.startMatch();
+    at(45);
+    match.suspend("Rain");
+    at(60);
+    match.endMatch();
+
+    const meta = match.getMatchSummary().meta;
+    expect(meta.clock!.endTime).toEqual(minutesIn(60));
+    expect(meta.clock!.suspensions[0].end).toEqual(minutesIn(60));
+    expect(meta.duration).toBe(45 * MINUTE);
+  });
+
+  it("should stop the clock when a player retires", () => {
+    match.scorePoint(1);
+    at(12);
+    match.recordRetirement(2);
+    at(30);
+
+    expect(match.getMatchSummary().meta.duration).toBe(12 * MINUTE);
+  });
+
+  it("should reopen the set when undoing the set point", () => {
+    match.startMatch();
+    at(30);
+    playSet(match, 1);
+    match.removePoint();
+    at(40);
+
+    const summary = match.getMatchSummary();
+    expect(summary.setHistory).toHaveLength(0);
+    expect(summary.meta.clock!.setStartTime).toEqual(START);
+  });
+
+  it("should survive serialization", () => {
+    match.startMatch();
+    at(10);
+    match.suspend("Rain");
+    at(25);
+    match.resume();
+    at(35);
+    playSet(match, 1);
+
+    const restored = TennisMatch.fromJSON(
+      JSON.parse(JSON.stringify(match.toJSON()))
+    );
+    at(50);
+    const summary = restored.getMatchSummary();
+    expect(summary.meta.duration).toBe(35 * MINUTE);
+    expect(summary.setHistory[0].duration).toBe(20 * MINUTE);
+    expect(summary.meta.clock!.suspensions[0].start).toEqual(minutesIn(10));
+  });
+});
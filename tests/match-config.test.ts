@@ -0,0 +1,143 @@
+import { TennisMatch, PointOutcome, MatchConfig } from "../src";
+
+describe("Creating Matches from MatchConfig", () => {
+  const singlesConfig: MatchConfig = {
+    matchType: "singles",
+    participants: {
+      1: { name: "Roger Federer", id: "federer", ranking: 3, country: "SUI" },
+      2: { name: "Rafael Nadal", id: "nadal", ranking: 2, country: "ESP" },
+    },
+    format: { sets: 5, tiebreakAt: 6, finalSetTiebreak: false },
+    surface: "grass",
+    tournament: "Wimbledon",
+    round: "F",
+  };
+
+  const doublesConfig: MatchConfig = {
+    matchType: "mixed-doubles",
+    participants: {
+      1: {
+        id: "team-1",
+        players: {
+          a: { name: "Alice", id: "alice", country: "USA" },
+          b: { name: "Bob", id: "bob", ranking: 12 },
+        },
+      },
+      2: {
+        name: "The Returners",
+        players: {
+          a: { name: "Charlie", id: "charlie" },
+          b: { name: "Diana", id: "diana" },
+        },
+      },
+    },
+    format: { sets: 3, tiebreakAt: 6, finalSetTiebreak: true },
+  };
+
+  it("should keep participant IDs, rankings and countries", () => {
+    const match = TennisMatch.fromConfig(singlesConfig);
+    const summary = match.getMatchSummary();
+
+    expect(summary.participants[1].info).toEqual({
+      id: "federer",
+      type: "player",
+      name: "Roger Federer",
+      position: 1,
+      ranking: 3,
+      country: "SUI",
+    });
+    expect(summary.participants[2].info.id).toBe("nadal");
+  });
+
+  it("should record the format, surface, tournament and round", () => {
+    const summary = TennisMatch.fromConfig(singlesConfig).getMatchSummary();
+
+    expect(summary.meta.matchType).toBe("singles");
+    expect(summary.meta.format.sets).toBe(5);
+    expect(summary.meta.format.finalSetTiebreak).toBe(false);
+    expect(summary.meta.surface).toBe("grass");
+    expect(summary.meta.tournament).toBe("Wimbledon");
+    expect(summary.meta.round).toBe("F");
+  });
+
+  it("should let player 2 serve first", () => {
+    const match = TennisMatch.fromConfig({ ...singlesConfig, firstServer: 2 });
+    expect(match.getMatchSummary().score.server.current).toBe("nadal");
+
+    match.scorePoint(2, PointOutcome.Ace);
+    const stats = match.getMatchSummary().participants[2].stats;
+    expect(stats.serving.aces).toBe(1);
+  });
+
+  it("should create doubles teams with player details", () => {
+    const match = TennisMatch.fromConfig(doublesConfig);
+    const summary = match.getMatchSummary();
+    const team1 = summary.participants[1].info as any;
+    const team2 = summary.participants[2].info as any;
+
+    expect(summary.meta.matchType).toBe("mixed-doubles");
+    expect(team1.id).toBe("team-1");
+    expect(team1.name).toBe("Alice/Bob");
+    expect(team1.players.a.country).toBe("USA");
+    expect(team1.players.b.ranking).toBe(12);
+    expect(team2.name).toBe("The Returners");
+    expect(summary.score.server.rotation).toEqual([
+      "alice",
+      "charlie",
+      "bob",
+      "diana",
+    ]);
+  });
+
+  it("should rotate serve in mixed doubles", () => {
+    const match = TennisMatch.fromConfig(doublesConfig);
+    for (let i = 0; i < 4; i++) {
+      match.scorePoint(1);
+    }
+
+    expect(match.getMatchSummary().score.server.current).toBe("charlie");
+  });
+
+  it("should start the doubles rotation with team 2", () => {
+    const match = TennisMatch.fromConfig({ ...doublesConfig, firstServer: 2 });
+
+    expect(match.getMatchSummary().score.server.rotation).toEqual([
+      "charlie",
+      "alice",
+      "diana",
+      "bob",
+    ]);
+    expect(match.getMatchSummary().score.server.current).toBe("charlie");
+  });
+
+  it("should survive a save and load", () => {
+    const match = TennisMatch.fromConfig({ ...singlesConfig, firstServer: 2 });
+    match.scorePoint(1);
+
+    const restored = TennisMatch.fromJSON(
+      JSON.parse(JSON.stringify(match.toJSON()))
+    );
+    const summary = restored.getMatchSummary();
+    expect(summary.meta.tournament).toBe("Wimbledon");
+    expect(summary.participants[1].info.id).toBe("federer");
+    expect(summary.score.server.current).toBe("nadal");
+  });
+
+  it("should reject participants that do not match the match type", () => {
+    expect(() =>
+      TennisMatch.fromConfig({
+        ...singlesConfig,
+        matchType: "doubles",
+      })
+    ).toThrow();
+    expect(() =>
+      TennisMatch.fromConfig({
+        ...doublesConfig,
+        participants: {
+          1: doublesConfig.participants[1],
+          2: { name: "Solo" },
+        },
+      })
+    ).toThrow();
+  });
+});
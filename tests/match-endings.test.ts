@@ -0,0 +1,113 @@
+import { TennisMatch } from "../src";
+import { playGame } from "./helpers";
+
+describe("Match Endings", () => {
+  let match: TennisMatch;
+
+  beforeEach(() => {
+    match = new TennisMatch("Player A", "Player B", 3);
+  });
+
+  describe("Retirement", () => {
+    it("should end the match mid-game with the partial score", () => {
+      for (let i = 0; i < 6; i++) playGame(match, 1);
+      playGame(match, 2);
+      playGame(match, 1);
+      match.scorePoint(2);
+
+      match.recordRetirement(2, "Injury");
+
+      const summary = match.getMatchSummary();
+      expect(summary.score.winner).toBe(1);
+      expect(summary.meta.status).toBe("retired");
+      expect(summary.meta.ending).toMatchObject({
+        status: "retired",
+        participant: 2,
+        reason: "Injury",
+      });
+      expect(summary.matchScore).toBe("6-0, 1-1 ret.");
+    });
+
+    it("should end the match between sets", () => {
+      for (let i = 0; i < 6; i++) playGame(match, 2);
+
+      match.recordRetirement(1);
+
+      expect(match.getMatchScoreString()).toBe("0-6 ret.");
+      expect(match.getMatchSummary().score.winner).toBe(2);
+    });
+
+    it("should discard a fault recorded on the point", () => {
+      match.recordFault();
+      match.recordRetirement(1);
+
+      const summary = match.getMatchSummary();
+      expect(summary.score.server.serveNumber).toBe(1);
+      expect(match.getMatchScoreString()).toBe("0-0 ret.");
+    });
+
+    it("should stop further scoring", () => {
+      match.recordRetirement(1);
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+      match.scorePoint(1);
+
+      expect(warn).toHaveBeenCalledWith("Match is already complete");
+      expect(match.toJSON().currentGamePoints).toHaveLength(0);
+      warn.mockRestore();
+    });
+  });
+
+  describe("Walkover", () => {
+    it("should award the match before play starts", () => {
+      match.recordWalkover(1, "Illness");
+
+      const summary = match.getMatchSummary();
+      expect(summary.score.winner).toBe(2);
+      expect(summary.meta.status).toBe("walkover");
+      expect(summary.matchScore).toBe("w/o");
+    });
+
+    it("should not be given once play has started", () => {
+      match.scorePoint(1);
+      expect(() => match.recordWalkover(1)).toThrow(
+        "A walkover can only be given before play starts"
+      );
+    });
+  });
+
+  describe("Default", () => {
+    it("should default a participant", () => {
+      playGame(match, 1);
+      match.recordDefault(1, "Late arrival after rain delay");
+
+      const summary = match.getMatchSummary();
+      expect(summary.score.winner).toBe(2);
+      expect(summary.meta.status).toBe("defaulted");
+      expect(summary.matchScore).toBe("1-0 def.");
+    });
+  });
+
+  it("should undo an early ending", () => {
+    match.scorePoint(1);
+    match.recordRetirement(2);
+
+    match.removePoint();
+
+    const summary = match.getMatchSummary();
+    expect(summary.score.winner).toBeUndefined();
+    expect(summary.meta.status).toBe("in-progress");
+    expect(summary.meta.ending).toBeUndefined();
+    expect(summary.score.points).toEqual({ type: "game", values: [15, 0] });
+  });
+
+  it("should survive serialization", () => {
+    match.scorePoint(1);
+    match.recordRetirement(2, "Injury");
+
+    const restored = TennisMatch.fromJSON(match.toJSON());
+    const summary = restored.getMatchSummary();
+    expect(summary.meta.status).toBe("retired");
+    expect(summary.matchScore).toBe("0-0 ret.");
+  });
+});
@@ -0,0 +1,87 @@
+import { TennisMatch } from "../src";
+
+describe("Match Events", () => {
+  let match: TennisMatch;
+
+  beforeEach(() => {
+    match = new TennisMatch("Player A", "Player B", 3);
+  });
+
+  it("should record an event without changing the score", () => {
+    match.scorePoint(1);
+
+    const event = match.recordEvent("medicalTimeout", {
+      participant: 2,
+      duration: 180000,
+      note: "Left ankle",
+    });
+
+    expect(event).toMatchObject({
+      type: "medicalTimeout",
+      participant: 2,
+      duration: 180000,
+      note: "Left ankle",
+      pointIndex: 1,
+    });
+    expect(event.timestamp).toBeInstanceOf(Date);
+
+    const summary = match.getMatchSummary();
+    expect(summary.events).toEqual([event]);
+    expect(summary.score.points).toEqual({ type: "game", values: [15, 0] });
+  });
+
+  it("should anchor events to the points played across games and sets", () => {
+    match.recordEvent("ballChange");
+    for (let i = 0; i < 24; i++) match.scorePoint(1);
+    match.recordEvent("toiletBreak", { participant: 2 });
+    match.scorePoint(2);
+    match.recordEvent("crowdDelay", { duration: 60000 });
+
+    const events = match.getMatchSummary().events;
+    expect(events.map((e) => [e.type, e.pointIndex])).toEqual([
+      ["ballChange", 0],
+      ["toiletBreak", 24],
+      ["crowdDelay", 25],
+    ]);
+  });
+
+  it("should accept an explicit timestamp", () => {
+    const timestamp = new Date("2026-06-01T12:30:00Z");
+    const event = match.recordEvent("other", { note: "Net repair", timestamp });
+    expect(event.timestamp).toBe(timestamp);
+  });
+
+  it("should record the player in doubles", () => {
+    const doubles = new TennisMatch(["A1", "A2"], ["B1", "B2"], 3);
+    const team2 = doubles.getMatchSummary().participants[2].info as any;
+
+    const event = doubles.recordEvent("attireBreak", {
+      participant: 2,
+      playerId: team2.players.a.id,
+    });
+    expect(event.playerId).toBe(team2.players.a.id);
+
+    expect(() =>
+      doubles.recordEvent("attireBreak", {
+        participant: 1,
+        playerId: team2.players.a.id,
+      })
+    ).toThrow(
+      `Player ${team2.players.a.id} is not on the given participant's side`
+    );
+  });
+
+  it("should reject a negative duration", () => {
+    expect(() => match.recordEvent("crowdDelay", { duration: -1 })).toThrow(
+      "Event duration cannot be negative"
+    );
+  });
+
+  it("should survive serialization", () => {
+    match.recordEvent("medicalTimeout", { participant: 1, note: "Cramp" });
+
+    const restored = TennisMatch.fromJSON(match.toJSON());
+    expect(restored.getMatchSummary().events).toHaveLength(1);
+    expect(restored.getMatchSummary().events[0].note).toBe("Cramp");
+  });
+});
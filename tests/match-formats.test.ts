@@ -0,0 +1,457 @@
+import { TennisMatch, PointOutcome } from "../src";
+
+describe("Match Formats", () => {
+  describe("No-Ad Scoring", () => {
+    let match: TennisMatch;
+
+    beforeEach(() => {
+      match = new TennisMatch("Player A", "Player B", {
+        sets: 3,
+        noAdScoring: true,
+      });
+    });
+
+    const reachFortyAll = (matchInstance: TennisMatch) => {
+      for (let i = 0; i < 3; i++) {
+        matchInstance.scorePoint(1);
+        matchInstance.scorePoint(2);
+      }
+    };
+
+    it("should record the format on the match summary", () => {
+      const summary = match.getMatchSummary();
+      expect(summary.meta.format.noAdScoring).toBe(true);
+      expect(summary.meta.format.sets).toBe(3);
+    });
+
+    it("should show 40-40 instead of deuce", () => {
+      reachFortyAll(match);
+
+      const summary = match.getMatchSummary();
+      expect(summary.score.points.values).toEqual([40, 40]);
+      expect(match.isDecidingPoint()).toBe(true);
+    });
+
+    it("should end the game on the deciding point", () => {
+      reachFortyAll(match);
+      match.scorePoint(2);
+
+      const summary = match.getMatchSummary();
+      expect(summary.score.games).toEqual([0, 1]);
+      expect(summary.score.points.values).toEqual([0, 0]);
+      expect(summary.currentSetGames[0].winner).toBe(2);
+      expect(summary.currentSetGames[0].points.length).toBe(7);
+    });
+
+    it("should record the receiver's court choice on the deciding point", () => {
+      reachFortyAll(match);
+      match.chooseDecidingPointReceiver("ad");
+      match.scorePoint(1, PointOutcome.Ace);
+
+      const game = match.getMatchSummary().currentSetGames[0];
+      const decidingPoint = game.points[game.points.length - 1];
+      expect(decidingPoint.decidingPoint).toEqual({ court: "ad" });
+      expect(game.points[0].decidingPoint).toBeUndefined();
+    });
+
+    it("should default the deciding point to the deuce court", () => {
+      reachFortyAll(match);
+      match.scorePoint(1);
+
+      const game = match.getMatchSummary().currentSetGames[0];
+      expect(game.points[6].decidingPoint).toEqual({ court: "deuce" });
+    });
+
+    it("should reject a receiver choice outside a deciding point", () => {
+      match.scorePoint(1);
+      expect(() => match.chooseDecidingPointReceiver("deuce")).toThrow();
+    });
+
+    it("should count the deciding point as a break point", () => {
+      reachFortyAll(match);
+      match.scorePoint(2);
+
+      const summary = match.getMatchSummary();
+      expect(summary.participants[1].stats.serving.breakPointsFaced).toBe(1);
+      expect(summary.participants[2].stats.returning.breakPointsWon).toBe(1);
+    });
+
+    it("should keep advantage scoring in standard matches", () => {
+      const adMatch = new TennisMatch("Player A", "Player B", 3);
+      reachFortyAll(adMatch);
+      adMatch.scorePoint(1);
+
+      const summary = adMatch.getMatchSummary();
+      expect(summary.score.games).toEqual([0, 0]);
+      expect(adMatch.isDecidingPoint()).toBe(false);
+    });
+
+    it("should let a doubles receiving team pick its receiver", () => {
+      const doubles = new TennisMatch(["A1", "A2"], ["B1", "B2"], {
+        sets: 3,
+        noAdScoring: true,
+      });
+      const summary = doubles.getMatchSummary();
+      const team1 = summary.participants[1].info as any;
+      const team2 = summary.participants[2].info as any;
+      reachFortyAll(doubles);
+
+      expect(() =>
+        doubles.chooseDecidingPointReceiver("ad", team1.players.a.id)
+      ).toThrow();
+
+      doubles.chooseDecidingPointReceiver("ad", team2.players.b.id);
+      doubles.scorePoint(2);
+
+      const game = doubles.getMatchSummary().currentSetGames[0];
+      expect(game.points[6].decidingPoint).toEqual({
+        court: "ad",
+        receiverId: team2.players.b.id,
+      });
+    });
+  });
+
+  describe("Short Sets", () => {
+    const winGame = (matchInstance: TennisMatch, player: 1 | 2) => {
+      for (let i = 0; i < 4; i++) {
+        matchInstance.scorePoint(player);
+      }
+    };
+
+    it("should default short sets to 4 games with a tiebreak at 4-4", () => {
+      const match = new TennisMatch("Player A", "Player B", {
+        sets: 3,
+        shortSets: true,
+      });
+
+      const format = match.getMatchSummary().meta.format;
+      expect(format.gamesPerSet).toBe(4);
+      expect(format.tiebreakAt).toBe(4);
+    });
+
+    it("should win a short set at 4-0", () => {
+      const match = new TennisMatch("Player A", "Player B", {
+        sets: 3,
+        shortSets: true,
+      });
+
+      for (let i = 0; i < 4; i++) {
+        winGame(match, 1);
+      }
+
+      const summary = match.getMatchSummary();
+      expect(summary.score.sets).toEqual([1, 0]);
+      expect(summary.setHistory[0].score).toEqual([4, 0]);
+    });
+
+    it("should play Fast4 with a tiebreak to 5 at 3-3", () => {
+      const match = new TennisMatch("Player A", "Player B", {
+        sets: 3,
+        shortSets: true,
+        tiebreakAt: 3,
+        tiebreakPoints: 5,
+        noAdScoring: true,
+      });
+
+      for (let i = 0; i < 3; i++) {
+        winGame(match, 1);
+        winGame(match, 2);
+      }
+
+      let summary = match.getMatchSummary();
+      expect(summary.score.games).toEqual([3, 3]);
+      expect(summary.score.points.type).toBe("tiebreak");
+
+      for (let i = 0; i < 4; i++) {
+        match.scorePoint(2);
+      }
+      expect(match.getMatchSummary().score.sets).toEqual([0, 0]);
+
+      match.scorePoint(2);
+      summary = match.getMatchSummary();
+      expect(summary.score.sets).toEqual([0, 1]);
+      expect(summary.setHistory[0].score).toEqual([3, 4]);
+      expect(summary.setHistory[0].tiebreak!.score).toEqual([0, 5]);
+      expect(summary.matchScore).toBe("3-4(0), 0-0");
+    });
+
+    it("should require a two-game lead before the tiebreak", () => {
+      const match = new TennisMatch("Player A", "Player B", {
+        sets: 3,
+        gamesPerSet: 4,
+        tiebreakAt: 4,
+      });
+
+      for (let i = 0; i < 3; i++) {
+        winGame(match, 1);
+        winGame(match, 2);
+      }
+      winGame(match, 1);
+
+      let summary = match.getMatchSummary();
+      expect(summary.score.games).toEqual([4, 3]);
+      expect(summary.score.sets).toEqual([0, 0]);
+
+      winGame(match, 1);
+      summary = match.getMatchSummary();
+      expect(summary.setHistory[0].score).toEqual([5, 3]);
+    });
+
+    it("should undo back out of a tiebreak", () => {
+      const match = new TennisMatch("Player A", "Player B", {
+        sets: 3,
+        shortSets: true,
+        tiebreakAt: 3,
+      });
+
+      for (let i = 0; i < 3; i++) {
+        winGame(match, 1);
+        winGame(match, 2);
+      }
+      expect(match.getMatchSummary().score.points.type).toBe("tiebreak");
+
+      match.removePoint();
+
+      const summary = match.getMatchSummary();
+      expect(summary.score.games).toEqual([3, 2]);
+      expect(summary.score.points.type).toBe("game");
+      expect(summary.score.points.values).toEqual([0, 40]);
+    });
+
+    it("should reject a tiebreak before the end of the set", () => {
+      expect(
+        () =>
+          new TennisMatch("Player A", "Player B", {
+            sets: 3,
+            shortSets: true,
+            tiebreakAt: 2,
+          })
+      ).toThrow();
+    });
+  });
+
+  describe("Match Tiebreak", () => {
+    const winSet = (matchInstance: TennisMatch, player: 1 | 2) => {
+      for (let i = 0; i < 24; i++) {
+        matchInstance.scorePoint(player);
+      }
+    };
+
+    const splitSets = (matchInstance: TennisMatch) => {
+      winSet(matchInstance, 1);
+      winSet(matchInstance, 2);
+    };
+
+    let match: TennisMatch;
+
+    beforeEach(() => {
+      match = new TennisMatch("Player A", "Player B", {
+        sets: 3,
+        matchTiebreak: true,
+      });
+    });
+
+    it("should default the match tiebreak to 10 points", () => {
+      expect(match.getMatchSummary().meta.format.matchTiebreakPoints).toBe(10);
+    });
+
+    it("should start the deciding set as a tiebreak", () => {
+      splitSets(match);
+
+      const summary = match.getMatchSummary();
+      expect(summary.currentSet).toBe(3);
+      expect(summary.score.games).toEqual([0, 0]);
+      expect(summary.score.points.type).toBe("tiebreak");
+      expect(summary.matchScore).toBe("6-0, 0-6, [0-0]");
+    });
+
+    it("should win the match with a 10-point tiebreak", () => {
+      splitSets(match);
+
+      for (let i = 0; i < 7; i++) {
+        match.scorePoint(1);
+        match.scorePoint(2);
+      }
+      match.scorePoint(1);
+      expect(match.getMatchSummary().matchScore).toBe("6-0, 0-6, [8-7]");
+
+      match.scorePoint(1);
+      match.scorePoint(1);
+
+      const summary = match.getMatchSummary();
+      expect(summary.score.winner).toBe(1);
+      expect(summary.matchScore).toBe("6-0, 0-6, [10-7]");
+
+      const decider = summary.setHistory[2];
+      expect(decider.matchTiebreak).toBe(true);
+      expect(decider.score).toEqual([1, 0]);
+      expect(decider.tiebreak!.score).toEqual([10, 7]);
+      expect(decider.tiebreak!.points.length).toBe(17);
+    });
+
+    it("should require a two-point lead in the match tiebreak", () => {
+      splitSets(match);
+
+      for (let i = 0; i < 9; i++) {
+        match.scorePoint(1);
+        match.scorePoint(2);
+      }
+      match.scorePoint(2);
+      expect(match.getMatchSummary().score.winner).toBeUndefined();
+
+      match.scorePoint(2);
+      const summary = match.getMatchSummary();
+      expect(summary.score.winner).toBe(2);
+      expect(summary.matchScore).toBe("6-0, 0-6, [9-11]");
+    });
+
+    it("should honor a custom match tiebreak target", () => {
+      const short = new TennisMatch("Player A", "Player B", {
+        sets: 3,
+        matchTiebreak: true,
+        matchTiebreakPoints: 7,
+      });
+      splitSets(short);
+
+      for (let i = 0; i < 7; i++) {
+        short.scorePoint(2);
+      }
+
+      expect(short.getMatchSummary().matchScore).toBe("6-0, 0-6, [0-7]");
+    });
+
+    it("should undo back into the match tiebreak and the previous set", () => {
+      splitSets(match);
+      for (let i = 0; i < 10; i++) {
+        match.scorePoint(1);
+      }
+      expect(match.getMatchSummary().score.winner).toBe(1);
+
+      match.removePoint();
+      let summary = match.getMatchSummary();
+      expect(summary.score.winner).toBeUndefined();
+      expect(summary.score.points.type).toBe("tiebreak");
+      expect(summary.score.points.values).toEqual([9, 0]);
+
+      for (let i = 0; i < 9; i++) {
+        match.removePoint();
+      }
+      match.removePoint();
+      summary = match.getMatchSummary();
+      expect(summary.currentSet).toBe(2);
+      expect(summary.score.games).toEqual([0, 5]);
+      expect(summary.score.points.type).toBe("game");
+    });
+  });
+
+  describe("Final Set Rules", () => {
+    const winGame = (matchInstance: TennisMatch, player: 1 | 2) => {
+      for (let i = 0; i < 4; i++) {
+        matchInstance.scorePoint(player);
+      }
+    };
+
+    const reachFinalSet = (matchInstance: TennisMatch) => {
+      for (let i = 0; i < 6; i++) winGame(matchInstance, 1);
+      for (let i = 0; i < 6; i++) winGame(matchInstance, 2);
+    };
+
+    const reachGamesAll = (matchInstance: TennisMatch, games: number) => {
+      for (let i = 0; i < games; i++) {
+        winGame(matchInstance, 1);
+        winGame(matchInstance, 2);
+      }
+    };
+
+    it("should still play a tiebreak at 6-6 in earlier sets", () => {
+      const match = new TennisMatch("Player A", "Player B", {
+        sets: 3,
+        finalSetTiebreak: false,
+      });
+      reachGamesAll(match, 6);
+
+      expect(match.getMatchSummary().score.points.type).toBe("tiebreak");
+    });
+
+    it("should play an advantage final set without a tiebreak", () => {
+      const match = new TennisMatch("Player A", "Player B", {
+        sets: 3,
+        finalSetTiebreak: false,
+      });
+      reachFinalSet(match);
+      reachGamesAll(match, 10);
+
+      let summary = match.getMatchSummary();
+      expect(summary.score.games).toEqual([10, 10]);
+      expect(summary.score.points.type).toBe("game");
+
+      winGame(match, 2);
+      winGame(match, 2);
+
+      summary = match.getMatchSummary();
+      expect(summary.score.winner).toBe(2);
+      expect(summary.setHistory[2].score).toEqual([10, 12]);
+      expect(summary.setHistory[2].tiebreak).toBeUndefined();
+      expect(summary.matchScore).toBe("6-0, 0-6, 10-12");
+    });
+
+    it("should play the final set tiebreak at 12-12", () => {
+      const match = new TennisMatch("Player A", "Player B", {
+        sets: 3,
+        finalSetTiebreakAt: 12,
+      });
+      reachFinalSet(match);
+      reachGamesAll(match, 6);
+      expect(match.getMatchSummary().score.points.type).toBe("game");
+
+      reachGamesAll(match, 6);
+      expect(match.getMatchSummary().score.games).toEqual([12, 12]);
+      expect(match.getMatchSummary().score.points.type).toBe("tiebreak");
+
+      for (let i = 0; i < 7; i++) {
+        match.scorePoint(1);
+      }
+
+      const summary = match.getMatchSummary();
+      expect(summary.score.winner).toBe(1);
+      expect(summary.setHistory[2].score).toEqual([13, 12]);
+      expect(summary.matchScore).toBe("6-0, 0-6, 13-12(0)");
+    });
+
+    it("should play a 10-point final set tiebreak at 6-6", () => {
+      const match = new TennisMatch("Player A", "Player B", {
+        sets: 3,
+        finalSetTiebreakPoints: 10,
+      });
+      reachFinalSet(match);
+      reachGamesAll(match, 6);
+
+      for (let i = 0; i < 8; i++) {
+        match.scorePoint(1);
+      }
+      expect(match.getMatchSummary().score.winner).toBeUndefined();
+
+      match.scorePoint(2);
+      match.scorePoint(1);
+      match.scorePoint(1);
+
+      const summary = match.getMatchSummary();
+      expect(summary.score.winner).toBe(1);
+      expect(summary.setHistory[2].tiebreak!.score).toEqual([10, 1]);
+      expect(summary.matchScore).toBe("6-0, 0-6, 7-6(1)");
+    });
+
+    it("should keep 7-point tiebreaks before the final set", () => {
+      const match = new TennisMatch("Player A", "Player B", {
+        sets: 3,
+        finalSetTiebreakPoints: 10,
+      });
+      reachGamesAll(match, 6);
+      for (let i = 0; i < 7; i++) {
+        match.scorePoint(1);
+      }
+
+      expect(match.getMatchSummary().setHistory[0].score).toEqual([7, 6]);
+    });
+  });
+});
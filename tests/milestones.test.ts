@@ -0,0 +1,244 @@
+import { TennisMatch, MatchMilestones, PointOutcome } from "../src";
+import {
+  createMatch,
+  playGame,
+  playSet,
+  playToTiebreak,
+  scorePoints,
+} from "./helpers";
+
+/**
+ * Records the milestones sent by a match, in the order they arrive.
+ */
+function listen(match: TennisMatch): string[] {
+  const received: string[] = [];
+  const types: (keyof MatchMilestones)[] = [
+    "point",
+    "game",
+    "break",
+    "set",
+    "tiebreakStart",
+    "changeover",
+    "matchComplete",
+  ];
+  for (const type of types) {
+    match.on(type, () => received.push(type));
+  }
+  return received;
+}
+
+describe("Match Milestones", () => {
+  let match: TennisMatch;
+
+  beforeEach(() => {
+    match = createMatch();
+  });
+
+  it("should send each point with its score", () => {
+    const points: (number | string)[][] = [];
+    match.on("point", ({ point }) => points.push(point.score));
+
+    match.scorePoint(1, PointOutcome.Ace);
+    match.scorePoint(2);
+
+    expect(points).toEqual([
+      [15, 0],
+      [15, 15],
+    ]);
+  });
+
+  it("should send milestones in order once the match is updated", () => {
+    const received = listen(match);
+    let gamesWhenSent: number[] = [];
+    match.on("game", () => {
+      gamesWhenSent = match.getMatchSummary().score.games;
+    });
+
+    playGame(match, 1);
+
+    expect(received).toEqual([
+      "point",
+      "point",
+      "point",
+      "point",
+      "game",
+      "changeover",
+    ]);
+    expect(gamesWhenSent).toEqual([1, 0]);
+  });
+
+  it("should send a break only when the receiver wins the game", () => {
+    const breaks: number[] = [];
+    match.on("break", ({ game, set }) => {
+      expect(game.server).not.toBe(game.winner === 1 ? "p1" : "p2");
+      breaks.push(set);
+    });
+
+    playGame(match, 1); // Player 1 holds
+    expect(breaks).toHaveLength(0);
+
+    playGame(match, 1); // Player 1 breaks
+    expect(breaks).toEqual([1]);
+  });
+
+  it("should send the set summary and the start of a tiebreak", () => {
+    const received = listen(match);
+    const sets: number[] = [];
+    match.on("set", ({ set, setNumber }) => {
+      expect(set.score).toEqual([7, 6]);
+      sets.push(setNumber);
+    });
+    let tiebreak: MatchMilestones["tiebreakStart"] | undefined;
+    match.on("tiebreakStart", (milestone) => (tiebreak = milestone));
+
+    playToTiebreak(match);
+    expect(tiebreak).toEqual({ set: 1, matchTiebreak: false });
+    expect(received.filter((type) => type === "break")).toHaveLength(0);
+
+    received.length = 0;
+    scorePoints(match, 1, 6);
+    expect(received).toContain("changeover");
+
+    received.length = 0;
+    scorePoints(match, 1, 1);
+    expect(received).toEqual(["point", "game", "set", "changeover"]);
+    expect(sets).toEqual([1]);
+  });
+
+  it("should send the start of a match tiebreak", () => {
+    const tiebreakMatch = new TennisMatch("Player A", "Player B", {
+      sets: 3,
+      matchTiebreak: true,
+    });
+    const starts: MatchMilestones["tiebreakStart"][] = [];
+    tiebreakMatch.on("tiebreakStart", (milestone) => starts.push(milestone));
+
+    playSet(tiebreakMatch, 1);
+    playSet(tiebreakMatch, 2);
+
+    expect(starts).toEqual([{ set: 3, matchTiebreak: true }]);
+  });
+
+  it("should send the changeovers of each game", () => {
+    const changeovers: string[] = [];
+    match.on("changeover", ({ changeover, game }) => {
+      changeovers.push(`${game!.winner}:${changeover.type}`);
+    });
+
+    playSet(match, 1);
+
+    expect(changeovers).toEqual([
+      "1:end-change",
+      "1:changeover",
+      "1:changeover",
+      "1:set-break",
+    ]);
+  });
+
+  it("should send the winner when the match is complete", () => {
+    const bestOfOne = new TennisMatch("Player A", "Player B", 1);
+    const received = listen(bestOfOne);
+    const winners: MatchMilestones["matchComplete"][] = [];
+    bestOfOne.on("matchComplete", (milestone) => winners.push(milestone));
+
+    playSet(bestOfOne, 2);
+
+    expect(winners).toEqual([{ winner: 2 }]);
+    expect(received.slice(-3)).toEqual(["game", "set", "matchComplete"]);
+  });
+
+  it("should send the ending of a match that ends early", () => {
+    const winners: MatchMilestones["matchComplete"][] = [];
+    match.on("matchComplete", (milestone) => winners.push(milestone));
+
+    match.scorePoint(1);
+    match.recordRetirement(1, "Injury");
+
+    expect(winners).toHaveLength(1);
+    expect(winners[0].winner).toBe(2);
+    expect(winners[0].ending).toMatchObject({
+      status: "retired",
+      participant: 1,
+      reason: "Injury",
+    });
+  });
+
+  it("should send penalty points and games without a break", () => {
+    const received = listen(match);
+
+    match.issueViolation(2, "time"); // Warning
+    match.issueViolation(2, "time"); // Point penalty
+    expect(received).toEqual(["point"]);
+
+    match.issueViolation(2, "time"); // Game penalty
+    expect(received).toEqual(["point", "game", "changeover"]);
+  });
+
+  it("should send redone points but not undone or corrected ones", () => {
+    scorePoints(match, 1, 3);
+    const received = listen(match);
+
+    match.removePoint();
+    match.redoPoint();
+    expect(received).toEqual(["point"]);
+
+    received.length = 0;
+    match.editPoint(0, { winner: 2 });
+    match.insertPoint(0, { winner: 1 });
+    match.deletePoint(0);
+    match.removePoint();
+    expect(received).toHaveLength(0);
+  });
+
+  it("should keep scoring when a listener throws", () => {
+    const error = jest.spyOn(console, "error").mockImplementation(() => {});
+    const games: number[] = [];
+    match.on("point", () => {
+      throw new Error("Scoreboard offline");
+    });
+    match.on("game", ({ set }) => games.push(set));
+
+    expect(() => playGame(match, 1)).not.toThrow();
+
+    expect(games).toEqual([1]);
+    expect(match.getMatchSummary().score.games).toEqual([1, 0]);
+    expect(match.getInputLog()).toHaveLength(4);
+    expect(error).toHaveBeenCalledTimes(4);
+    error.mockRestore();
+  });
+
+  it("should not send milestones for an input that fails", () => {
+    const received = listen(match);
+
+    expect(() => match.scorePoint({ winner: 1, rally: { shots: 0 } })).toThrow(
+      "Rally shots must be a positive whole number"
+    );
+    expect(received).toHaveLength(0);
+
+    match.scorePoint(1);
+    expect(received).toEqual(["point"]);
+  });
+
+  it("should send milestones for an input that was applied but not saved", () => {
+    const received: string[] = [];
+    const failing = new TennisMatch("Player A", "Player B", 3, () => {
+      throw new Error("Storage is full");
+    });
+    failing.on("point", () => received.push("point"));
+
+    expect(() => failing.scorePoint(1)).toThrow("Storage is full");
+    expect(received).toEqual(["point"]);
+  });
+
+  it("should stop sending milestones to a removed listener", () => {
+    const points: number[] = [];
+    const listener = () => points.push(points.length);
+    match.on("point", listener);
+
+    match.scorePoint(1);
+    match.off("point", listener);
+    match.scorePoint(1);
+
+    expect(points).toHaveLength(1);
+  });
+});
@@ -0,0 +1,249 @@
+import { TennisMatch, PointInput, PointOutcome } from "../src";
+import { START, createMatch, createDoublesMatch, getState } from "./helpers";
+
+/**
+ * Scores a sequence of points, given as winners or full point details.
+ */
+function score(match: TennisMatch, points: (1 | 2 | PointInput)[]): void {
+  for (const point of points) {
+    if (typeof point === "object") {
+      match.scorePoint(point);
+    } else {
+      match.scorePoint(point);
+    }
+  }
+}
+
+/**
+ * Repeats a winner the given number of times.
+ */
+function repeat(winner: 1 | 2, count: number): (1 | 2)[] {
+  return Array(count).fill(winner);
+}
+
+describe("Point Editing", () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: START });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should list every point of the match in order", () => {
+    const match = createMatch();
+    score(match, [...repeat(1, 4), 2, 1]);
+
+    const history = match.getPointHistory();
+    expect(history).toHaveLength(6);
+    expect(history.map((point) => point.winner)).toEqual([1, 1, 1, 1, 2, 1]);
+    expect(history[4].score).toEqual([0, 15]);
+  });
+
+  it("should match scoring the corrected points from scratch", () => {
+    const match = createMatch();
+    score(match, [1, 1, 2, 1, 1, 2, 2]);
+    match.editPoint(2, { winner: 1 });
+
+    const expected = createMatch();
+    score(expected, [1, 1, 1, 1, 1, 2, 2]);
+
+    expect(getState(match)).toEqual(getState(expected));
+    expect(match.getMatchScoreString()).toBe("1-0");
+  });
+
+  it("should rebuild set history when a correction changes a set", () => {
+    const match = createMatch();
+    score(match, [...repeat(1, 24), 2, 2]);
+    expect(match.getMatchScoreString()).toBe("6-0, 0-0");
+
+    // Player 2 won the set point, so the first set goes on
+    match.editPoint(23, { winner: 2 });
+
+    const expected = createMatch();
+    score(expected, [...repeat(1, 23), 2, 2, 2]);
+
+    expect(getState(match)).toEqual(getState(expected));
+    expect(match.getMatchScoreString()).toBe("5-0");
+  });
+
+  it("should rebuild statistics from the corrected points", () => {
+    const match = createMatch();
+    score(match, [1, { winner: 1, outcome: PointOutcome.Winner }, 2]);
+    match.editPoint(0, { outcome: PointOutcome.Ace });
+    match.editPoint(1, { winner: 2, outcome: PointOutcome.UnforcedError });
+
+    const { participants } = match.getMatchSummary();
+    expect(participants[1].stats.serving.aces).toBe(1);
+    expect(participants[1].stats.rally.winners).toBe(0);
+    expect(participants[1].stats.rally.unforcedErrors).toBe(1);
+    expect(participants[1].stats.pointsWon).toBe(1);
+    expect(participants[2].stats.pointsWon).toBe(2);
+
+    const expected = createMatch();
+    score(expected, [
+      { winner: 1, outcome: PointOutcome.Ace },
+      { winner: 2, outcome: PointOutcome.UnforcedError },
+      2,
+    ]);
+    expect(getState(match)).toEqual(getState(expected));
+  });
+
+  it("should insert a missed point", () => {
+    const match = createMatch();
+    score(match, [1, 1, 1, 2]);
+    match.insertPoint(1, { winner: 2 });
+
+    const expected = createMatch();
+    score(expected, [1, 2, 1, 1, 2]);
+    expect(getState(match)).toEqual(getState(expected));
+
+    match.insertPoint(5, { winner: 2, outcome: PointOutcome.DoubleFault });
+    expect(match.getPointHistory()).toHaveLength(6);
+    expect(match.toJSON().currentGamePoints[5].outcome).toBe(
+      PointOutcome.DoubleFault
+    );
+  });
+
+  it("should delete a point that should not have been scored", () => {
+    const match = createMatch();
+    score(match, [1, 1, 2, 1, 1, 2]);
+    match.deletePoint(2);
+
+    const expected = createMatch();
+    score(expected, [1, 1, 1, 1, 2]);
+    expect(getState(match)).toEqual(getState(expected));
+  });
+
+  it("should move events along with the points around them", () => {
+    const match = createMatch();
+    score(match, [1, 1]);
+    match.recordEvent("medicalTimeout", { participant: 2 });
+    score(match, [2]);
+
+    match.insertPoint(0, { winner: 1 });
+    expect(match.getMatchSummary().events[0].pointIndex).toBe(3);
+
+    match.deletePoint(3);
+    match.deletePoint(0);
+    expect(match.getMatchSummary().events[0].pointIndex).toBe(2);
+  });
+
+  it("should move violations and challenges to the game they now fall in", () => {
+    const match = createMatch();
+    score(match, repeat(1, 4));
+    match.issueViolation(2, "time");
+    match.recordChallenge(2, false);
+    expect(match.getMatchSummary().violations[0].game).toBe(2);
+
+    // Player 1 no longer won the first game to love, so it goes on
+    match.editPoint(0, { winner: 2 });
+    let summary = match.getMatchSummary();
+    expect(summary.violations[0]).toMatchObject({
+      set: 1,
+      game: 1,
+      pointIndex: 4,
+    });
+    expect(summary.challenges[0]).toMatchObject({ game: 1, pointIndex: 4 });
+
+    match.insertPoint(0, { winner: 1 });
+    summary = match.getMatchSummary();
+    expect(summary.violations[0]).toMatchObject({ game: 2, pointIndex: 5 });
+    expect(summary.challenges[0]).toMatchObject({ game: 2, pointIndex: 5 });
+  });
+
+  it("should keep doubles serving orders chosen between sets", () => {
+    const match = createDoublesMatch();
+    score(match, repeat(1, 24));
+    match.setServingOrder({ 1: "b", 2: "b" });
+    score(match, [1, 2]);
+    match.editPoint(0, { outcome: PointOutcome.Ace });
+
+    const expected = createDoublesMatch();
+    score(expected, [{ winner: 1, outcome: PointOutcome.Ace }]);
+    score(expected, repeat(1, 23));
+    expected.setServingOrder({ 1: "b", 2: "b" });
+    score(expected, [1, 2]);
+
+    expect(getState(match)).toEqual(getState(expected));
+  });
+
+  it("should replay penalty points and games", () => {
+    const match = createMatch();
+    score(match, [1, 1]);
+    match.issueViolation(1, "time"); // Warning
+    match.issueViolation(1, "time"); // Point penalty
+    match.issueViolation(1, "time"); // Game penalty
+    score(match, [2]);
+
+    match.editPoint(0, { winner: 2 });
+
+    const history = match.getPointHistory();
+    expect(history.map((point) => point.winner)).toEqual([2, 1, 2, 2]);
+    expect(history[2].outcome).toBe(PointOutcome.Penalty);
+    const summary = match.getMatchSummary();
+    expect(summary.currentSetGames[0].penalty).toBe(true);
+    expect(summary.currentSetGames[0].winner).toBe(2);
+    expect(summary.score.games).toEqual([0, 1]);
+    expect(summary.participants[1].stats.pointsPlayed).toBe(3);
+
+    expect(() => match.editPoint(2, { winner: 1 })).toThrow(
+      "Penalty points cannot be edited"
+    );
+    expect(() => match.deletePoint(2)).toThrow(
+      "Penalty points cannot be edited"
+    );
+  });
+
+  it("should keep an early ending unless the corrections complete the match", () => {
+    const match = createMatch(1);
+    score(match, [...repeat(1, 23), 2]);
+    match.recordRetirement(1, "Injury");
+
+    match.editPoint(0, { winner: 2 });
+    expect(match.getMatchSummary().meta.status).toBe("retired");
+    expect(match.getMatchSummary().score.winner).toBe(2);
+
+    match.editPoint(0, { winner: 1 });
+    expect(() => match.editPoint(23, { winner: 1 })).toThrow(
+      "The corrected points complete a match that was retired"
+    );
+    expect(match.getMatchScoreString()).toBe("5-0 ret.");
+  });
+
+  it("should leave the match unchanged when a correction is invalid", () => {
+    const match = createMatch(1);
+    score(match, [...repeat(1, 20), 2, ...repeat(1, 4)]);
+    const before = JSON.stringify(match.toJSON());
+
+    expect(() => match.editPoint(20, { winner: 1 })).toThrow(
+      "The corrected points complete the match too early"
+    );
+    expect(() => match.editPoint(25, { winner: 2 })).toThrow(
+      "There is no point at index 25"
+    );
+    expect(() => match.insertPoint(-1, { winner: 2 })).toThrow(
+      "There is no point at index -1"
+    );
+    expect(() => match.editPoint(0, { outcome: PointOutcome.Penalty })).toThrow(
+      "Penalty points are awarded with issueViolation"
+    );
+
+    expect(JSON.stringify(match.toJSON())).toBe(before);
+  });
+
+  it("should reopen a completed match when a correction undoes the win", () => {
+    const match = createMatch(1);
+    score(match, repeat(1, 24));
+    expect(match.getMatchSummary().meta.status).toBe("completed");
+
+    match.editPoint(23, { winner: 2 });
+
+    const summary = match.getMatchSummary();
+    expect(summary.meta.status).toBe("in-progress");
+    expect(summary.score.winner).toBeUndefined();
+    expect(summary.meta.clock!.endTime).toBeUndefined();
+    match.scorePoint(1);
+    expect(match.getMatchSummary().score.winner).toBe(1);
+  });
+});
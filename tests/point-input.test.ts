@@ -0,0 +1,113 @@
+import { TennisMatch, PointOutcome } from "../src";
+
+describe("Point Input", () => {
+  let match: TennisMatch;
+
+  beforeEach(() => {
+    match = new TennisMatch("Player A", "Player B", 3);
+  });
+
+  it("should score a point described by an object", () => {
+    match.scorePoint({ winner: 2, outcome: PointOutcome.Winner });
+
+    const summary = match.getMatchSummary();
+    expect(summary.score.points).toEqual({ type: "game", values: [0, 15] });
+
+    const point = match.toJSON().currentGamePoints[0];
+    expect(point.winner).toBe(2);
+    expect(point.outcome).toBe(PointOutcome.Winner);
+  });
+
+  it("should default the outcome to a regular point", () => {
+    match.scorePoint({ winner: 1 });
+    expect(match.toJSON().currentGamePoints[0].outcome).toBe(
+      PointOutcome.Regular
+    );
+  });
+
+  it("should store rally information and tags on the point", () => {
+    match.scorePoint({
+      winner: 1,
+      outcome: PointOutcome.Winner,
+      rally: { shots: 9, duration: 14, endLocation: "net" },
+      tags: ["drop-shot", "video-review"],
+    });
+
+    const point = match.toJSON().currentGamePoints[0];
+    expect(point.rally).toEqual({ shots: 9, duration: 14, endLocation: "net" });
+    expect(point.tags).toEqual(["drop-shot", "video-review"]);
+  });
+
+  it("should keep rally information in the game history", () => {
+    for (let i = 0; i < 4; i++) {
+      match.scorePoint({ winner: 1, rally: { shots: i + 1 } });
+    }
+
+    const game = match.getMatchSummary().currentSetGames[0];
+    expect(game.points.map((p) => p.rally!.shots)).toEqual([1, 2, 3, 4]);
+  });
+
+  it("should record serve information from the object", () => {
+    match.scorePoint({ winner: 1, fault: 1, lets: 1 });
+
+    const point = match.toJSON().currentGamePoints[0];
+    expect(point.fault).toBe(1);
+    expect(point.lets).toBe(1);
+
+    const stats = match.getMatchSummary().participants[1].stats as any;
+    expect(stats.serving.secondServeIn).toBe(1);
+    expect(stats.serving.pointsWonOnSecondServe).toBe(1);
+  });
+
+  it("should use recorded faults when the object has no serve information", () => {
+    match.recordFault();
+    match.scorePoint({ winner: 2, rally: { shots: 4 } });
+
+    const point = match.toJSON().currentGamePoints[0];
+    expect(point.fault).toBe(1);
+    expect(point.rally).toEqual({ shots: 4 });
+  });
+
+  it("should credit the scorer in doubles", () => {
+    const doubles = new TennisMatch(["A1", "A2"], ["B1", "B2"], 3);
+    const team1 = doubles.getMatchSummary().participants[1].info as any;
+    const scorerId = team1.players.b.id;
+
+    doubles.scorePoint({
+      winner: 1,
+      outcome: PointOutcome.Winner,
+      scorer: scorerId,
+    });
+
+    expect(doubles.toJSON().currentGamePoints[0].scorer).toBe(scorerId);
+    const stats = doubles.getMatchSummary().participants[1].stats as any;
+    expect(stats.playerStats[scorerId].rally.winners).toBe(1);
+  });
+
+  it("should survive serialization", () => {
+    match.scorePoint({ winner: 1, rally: { shots: 3 }, tags: ["lob"] });
+
+    const restored = TennisMatch.fromJSON(
+      JSON.parse(JSON.stringify(match.toJSON()))
+    );
+    const point = restored.toJSON().currentGamePoints[0];
+    expect(point.rally).toEqual({ shots: 3 });
+    expect(point.tags).toEqual(["lob"]);
+  });
+
+  it("should reject invalid rally information", () => {
+    expect(() => match.scorePoint({ winner: 1, rally: { shots: 0 } })).toThrow(
+      "Rally shots must be a positive whole number"
+    );
+    expect(() =>
+      match.scorePoint({ winner: 1, rally: { shots: 2, duration: -1 } })
+    ).toThrow("Rally duration cannot be negative");
+    expect(match.toJSON().currentGamePoints).toHaveLength(0);
+  });
+
+  it("should reject two faults on a point that was played", () => {
+    expect(() => match.scorePoint({ winner: 1, fault: 2 })).toThrow(
+      "A point played after a serve must have 0 or 1 faults"
+    );
+  });
+});
@@ -0,0 +1,139 @@
+import { TennisMatch, PointOutcome, Stroke } from "../src";
+import {
+  START,
+  createMatch,
+  getSavedData,
+  getState,
+  minutesIn,
+  playSet,
+} from "./helpers";
+
+describe("Redo", () => {
+  let match: TennisMatch;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: START });
+    match = createMatch();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should redo undone points in order", () => {
+    match.scorePoint(1);
+    match.scorePoint(2);
+    match.scorePoint(2);
+    expect(match.canRedo()).toBe(false);
+
+    match.removePoint();
+    match.removePoint();
+    expect(match.canRedo()).toBe(true);
+    expect(match.getMatchSummary().score.points.values).toEqual([15, 0]);
+
+    match.redoPoint();
+    expect(match.getMatchSummary().score.points.values).toEqual([15, 15]);
+    match.redoPoint();
+    expect(match.getMatchSummary().score.points.values).toEqual([15, 30]);
+    expect(match.canRedo()).toBe(false);
+
+    // Nothing left to redo
+    match.redoPoint();
+    expect(match.getPointHistory()).toHaveLength(3);
+  });
+
+  it("should keep the original timestamp and details of a redone point", () => {
+    match.scorePoint({
+      winner: 1,
+      outcome: PointOutcome.Winner,
+      shot: { stroke: Stroke.Backhand, direction: "downTheLine" },
+      rally: { shots: 7 },
+      fault: 1,
+      tags: ["review"],
+    });
+    const original = match.getPointHistory()[0];
+    const stats = match.getMatchSummary().participants;
+
+    match.removePoint();
+    jest.setSystemTime(minutesIn(5));
+    match.redoPoint();
+
+    expect(match.getPointHistory()[0]).toEqual(original);
+    expect(match.getMatchSummary().participants).toEqual(stats);
+  });
+
+  it("should redo across game and set boundaries", () => {
+    playSet(match, 1);
+    match.scorePoint(2);
+    const before = getState(match);
+
+    for (let i = 0; i < 6; i++) {
+      match.removePoint();
+    }
+    expect(match.getMatchScoreString()).toBe("4-0");
+
+    while (match.canRedo()) {
+      match.redoPoint();
+    }
+    expect(getState(match)).toEqual(before);
+  });
+
+  it("should clear the points to redo when a new point is scored", () => {
+    match.scorePoint(1);
+    match.scorePoint(1);
+    match.removePoint();
+
+    match.scorePoint(2);
+    expect(match.canRedo()).toBe(false);
+
+    match.removePoint();
+    match.recordFault();
+    expect(match.canRedo()).toBe(false);
+  });
+
+  it("should not redo an undone penalty point", () => {
+    match.scorePoint(1);
+    match.issueViolation(1, "time"); // Warning
+    match.issueViolation(1, "time"); // Point penalty
+
+    match.removePoint();
+    expect(match.canRedo()).toBe(false);
+    expect(match.getMatchSummary().violations).toHaveLength(1);
+  });
+
+  it("should not redo a point while play is suspended", () => {
+    match.scorePoint(1);
+    match.removePoint();
+    match.suspend("Rain");
+    const before = getState(match);
+
+    expect(() => match.redoPoint()).toThrow("Play is suspended");
+    expect(getState(match)).toEqual(before);
+    expect(match.getInputLog()).toHaveLength(3);
+  });
+
+  it("should redo the winning point of the match", () => {
+    const bestOfOne = new TennisMatch("Player A", "Player B", 1);
+    playSet(bestOfOne, 1);
+    bestOfOne.removePoint();
+    expect(bestOfOne.getMatchSummary().score.winner).toBeUndefined();
+
+    bestOfOne.redoPoint();
+    expect(bestOfOne.getMatchSummary().score.winner).toBe(1);
+    expect(bestOfOne.canRedo()).toBe(false);
+  });
+
+  it("should keep the points to redo when saved and loaded", () => {
+    match.scorePoint(1);
+    match.scorePoint({ winner: 2, outcome: PointOutcome.Ace });
+    match.removePoint();
+
+    const restored = TennisMatch.fromJSON(getSavedData(match));
+    expect(restored.canRedo()).toBe(true);
+
+    restored.redoPoint();
+    const point = restored.getPointHistory()[1];
+    expect(point.outcome).toBe(PointOutcome.Ace);
+    expect(new Date(point.timestamp!)).toEqual(START);
+  });
+});
@@ -0,0 +1,286 @@
+import { TennisMatch, PointOutcome, Stroke } from "../src";
+import {
+  START,
+  MINUTE,
+  createDoublesMatch,
+  getSavedData,
+  minutesIn,
+  wait,
+} from "./helpers";
+
+/**
+ * Replays a match from its input log and configuration.
+ */
+function replay(match: TennisMatch): TennisMatch {
+  const data = match.toJSON();
+  return TennisMatch.replay(match.getInputLog()!, data.config);
+}
+
+describe("Replay", () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: START });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should log each input with the time it was made", () => {
+    const match = new TennisMatch("Player A", "Player B", 3);
+    match.scorePoint(1, PointOutcome.Ace);
+    wait(1);
+    match.recordFault();
+    match.removePoint();
+
+    const log = match.getInputLog()!;
+    expect(log.map((input) => input.type)).toEqual(["point", "fault", "undo"]);
+    expect(log[0].timestamp).toEqual(START);
+    expect(log[2].timestamp).toEqual(minutesIn(1));
+    expect(log[0]).toMatchObject({
+      point: { winner: 1, outcome: PointOutcome.Ace },
+    });
+  });
+
+  it("should log an input once, not the calls made in applying it", () => {
+    const match = new TennisMatch("Player A", "Player B", 3);
+    match.recordFault();
+    match.recordFault(); // Double fault scores the point
+    match.scorePoint(1);
+    match.recordChallenge(2, true, { remedy: "award" });
+
+    expect(match.getInputLog()!.map((input) => input.type)).toEqual([
+      "fault",
+      "fault",
+      "point",
+      "challenge",
+    ]);
+  });
+
+  it("should leave an input that fails out of the log", () => {
+    const match = new TennisMatch("Player A", "Player B", 3);
+    match.scorePoint(1);
+
+    expect(() => match.resume()).toThrow("Play is not suspended");
+    expect(() => match.editPoint(5, { winner: 2 })).toThrow(
+      "There is no point at index 5"
+    );
+    expect(match.getInputLog()).toHaveLength(1);
+  });
+
+  it("should keep an input that was applied when saving it fails", () => {
+    let failSave = true;
+    const match = new TennisMatch("Player A", "Player B", 3, () => {
+      if (failSave) throw new Error("Storage is full");
+    });
+
+    expect(() => match.scorePoint(1)).toThrow("Storage is full");
+    failSave = false;
+
+    expect(match.getInputLog()).toHaveLength(1);
+
+    const restored = TennisMatch.fromJSON(getSavedData(match));
+    expect(restored.getMatchSummary().score.points.values).toEqual([15, 0]);
+    expect(restored.getInputLog()).toHaveLength(1);
+  });
+
+  it("should take the state of a saved match from its log", () => {
+    const match = new TennisMatch("Player A", "Player B", 3);
+    match.scorePoint(1);
+    match.scorePoint(1);
+
+    const data = getSavedData(match);
+    data.inputs = data.inputs!.slice(0, 1);
+    const restored = TennisMatch.fromJSON(data);
+
+    expect(restored.getMatchSummary().score.points.values).toEqual([15, 0]);
+    expect(restored.getInputLog()).toHaveLength(1);
+  });
+
+  it("should reject a saved log that cannot be replayed", () => {
+    const match = new TennisMatch("Player A", "Player B", 3);
+    match.scorePoint(1);
+
+    const data = getSavedData(match);
+    data.inputs!.push({ type: "resume", timestamp: START });
+
+    expect(() => TennisMatch.fromJSON(data)).toThrow(
+      "Input 1 (resume) cannot be replayed: Play is not suspended"
+    );
+    expect(() => TennisMatch.load(() => JSON.stringify(data))).toThrow(
+      "Input 1 (resume) cannot be replayed"
+    );
+  });
+
+  it("should rebuild identical state from a singles log", () => {
+    const match = TennisMatch.fromConfig({
+      matchType: "singles",
+      participants: {
+        1: { id: "p1", name: "Player A" },
+        2: { id: "p2", name: "Player B" },
+      },
+      format: {
+        sets: 3,
+        tiebreakAt: 6,
+        finalSetTiebreak: true,
+        noAdScoring: true,
+      },
+      firstServer: "toss",
+    });
+
+    match.recordToss(2, "receive", { ends: { 1: "far", 2: "near" } });
+    match.startMatch();
+    wait(2);
+    match.recordLet();
+    match.scorePoint({
+      winner: 1,
+      outcome: PointOutcome.Winner,
+      shot: { stroke: Stroke.Forehand, direction: "crossCourt" },
+      rally: { shots: 6, endLocation: "net", approaches: ["p1"] },
+      placement: "wide",
+      tags: ["long rally"],
+    });
+    match.recordFault();
+    match.scorePoint(2, PointOutcome.UnforcedError);
+    match.scorePoint(1);
+    match.scorePoint(2);
+    match.scorePoint(1);
+    match.scorePoint(2);
+    match.chooseDecidingPointReceiver("ad");
+    wait(1);
+    match.scorePoint(2);
+    match.recordChallenge(1, true, { remedy: "award" });
+    match.recordEvent("medicalTimeout", { participant: 2, duration: MINUTE });
+    match.issueViolation(2, "time");
+    match.issueViolation(2, "ballAbuse");
+    wait(5);
+    match.suspend("Rain");
+    wait(30);
+    match.resume();
+    for (let i = 0; i < 20; i++) {
+      match.scorePoint(i % 3 === 0 ? 2 : 1);
+    }
+    match.removePoint();
+    match.removePoint();
+    match.redoPoint();
+    match.editPoint(3, { winner: 1, outcome: PointOutcome.Ace });
+    match.insertPoint(10, { winner: 2, outcome: PointOutcome.DoubleFault });
+    match.deletePoint(12);
+    wait(10);
+    match.recordRetirement(2, "Injury");
+
+    expect(getSavedData(replay(match))).toEqual(getSavedData(match));
+  });
+
+  it("should rebuild identical state from a doubles log", () => {
+    const match = createDoublesMatch();
+
+    for (let i = 0; i < 30; i++) {
+      wait(1);
+      match.scorePoint({
+        winner: i % 5 === 0 ? 2 : 1,
+        scorer: i % 2 === 0 ? "a1" : undefined,
+      });
+    }
+    match.setServingOrder({ 1: "b", 2: "b" });
+    for (let i = 0; i < 40; i++) {
+      wait(1);
+      match.scorePoint(i % 4 === 0 ? 1 : 2);
+    }
+    match.issueViolation(1, "coaching", { playerId: "b1" });
+
+    expect(getSavedData(replay(match))).toEqual(getSavedData(match));
+  });
+
+  it("should rebuild a completed match with set times", () => {
+    const match = new TennisMatch("Player A", "Player B", 3);
+    for (let i = 0; i < 48; i++) {
+      wait(1);
+      match.scorePoint(1);
+    }
+    match.endMatch(new Date(Date.now() + 5 * MINUTE));
+
+    const replayed = replay(match);
+    expect(getSavedData(replayed)).toEqual(getSavedData(match));
+    expect(replayed.getMatchSummary().setHistory[1].endTime).toEqual(
+      minutesIn(48)
+    );
+  });
+
+  it("should rebuild identical state when the clock moves during an input", () => {
+    // Move the clock on a millisecond whenever the time is read, as it may
+    // between the calls made in applying an input
+    const FakeDate = Date;
+    global.Date = class extends FakeDate {
+      constructor(value?: number | string | Date) {
+        if (value === undefined) {
+          jest.advanceTimersByTime(1);
+          super();
+        } else {
+          super(value);
+        }
+      }
+    } as DateConstructor;
+
+    try {
+      const match = new TennisMatch("Player A", "Player B", 3);
+      match.startMatch();
+      for (let i = 0; i < 30; i++) {
+        match.scorePoint(i % 3 === 0 ? 2 : 1);
+      }
+      match.recordFault();
+      match.recordFault();
+      match.issueViolation(1, "time");
+      match.recordChallenge(2, false);
+      match.removePoint();
+
+      expect(getSavedData(replay(match))).toEqual(getSavedData(match));
+    } finally {
+      global.Date = FakeDate;
+    }
+  });
+
+  it("should give the same state every time a log is replayed", () => {
+    const match = new TennisMatch("Player A", "Player B", 3);
+    for (let i = 0; i < 10; i++) {
+      match.scorePoint(i % 2 === 0 ? 1 : 2);
+    }
+
+    const first = replay(match);
+    wait(60);
+    const second = replay(match);
+    expect(getSavedData(second)).toEqual(getSavedData(first));
+
+    // A replayed match keeps logging new inputs
+    second.scorePoint(1);
+    expect(getSavedData(replay(second))).toEqual(getSavedData(second));
+    expect(second.getInputLog()).toHaveLength(11);
+  });
+
+  it("should restore a saved match by replaying its log", () => {
+    const match = new TennisMatch("Player A", "Player B", 3);
+    match.scorePoint(1, PointOutcome.Ace);
+    match.recordEvent("ballChange");
+    match.scorePoint(2);
+    match.removePoint();
+
+    const data = getSavedData(match);
+    const restored = TennisMatch.fromJSON(data);
+    expect(getSavedData(restored)).toEqual(data);
+    expect(restored.canRedo()).toBe(true);
+  });
+
+  it("should restore data saved without a log from its fields", () => {
+    const match = new TennisMatch("Player A", "Player B", 3);
+    match.scorePoint(1);
+    match.scorePoint(1);
+
+    const { inputs, ...data } = getSavedData(match);
+    expect(inputs).toHaveLength(2);
+    const restored = TennisMatch.fromJSON(data);
+
+    expect(restored.getMatchSummary().score.points.values).toEqual([30, 0]);
+    expect(restored.getInputLog()).toBeUndefined();
+    restored.scorePoint(1);
+    expect(restored.getMatchSummary().score.points.values).toEqual([40, 0]);
+  });
+});
@@ -0,0 +1,119 @@
+import { TennisMatch, PointOutcome } from "../src";
+import { playToTiebreak } from "./helpers";
+
+describe("Serve Placement", () => {
+  let match: TennisMatch;
+
+  beforeEach(() => {
+    match = new TennisMatch("Player A", "Player B", 3);
+  });
+
+  describe("Court Side", () => {
+    it("should alternate courts from the deuce court each game", () => {
+      const courts = [];
+      for (let i = 0; i < 4; i++) {
+        courts.push(match.getMatchSummary().score.server.court);
+        match.scorePoint(1);
+      }
+      expect(courts).toEqual(["deuce", "ad", "deuce", "ad"]);
+      // New game starts on the deuce court
+      expect(match.getMatchSummary().score.server.court).toBe("deuce");
+
+      const game = match.getMatchSummary().currentSetGames[0];
+      expect(game.points.map((p) => p.court)).toEqual([
+        "deuce",
+        "ad",
+        "deuce",
+        "ad",
+      ]);
+    });
+
+    it("should alternate courts through a tiebreak", () => {
+      playToTiebreak(match);
+      match.scorePoint(1);
+      match.scorePoint(2);
+      match.scorePoint(2);
+
+      const points = match.toJSON().currentGamePoints;
+      expect(points.map((p) => p.court)).toEqual(["deuce", "ad", "deuce"]);
+    });
+
+    it("should use the receivers' choice on a no-ad deciding point", () => {
+      const noAd = new TennisMatch("Player A", "Player B", {
+        sets: 3,
+        tiebreakAt: 6,
+        finalSetTiebreak: true,
+        noAdScoring: true,
+      });
+      for (let i = 0; i < 3; i++) {
+        noAd.scorePoint(1);
+        noAd.scorePoint(2);
+      }
+      noAd.chooseDecidingPointReceiver("ad");
+      expect(noAd.getMatchSummary().score.server.court).toBe("ad");
+
+      noAd.scorePoint(1, PointOutcome.Regular, undefined, true);
+      const game = noAd.getMatchSummary().currentSetGames[0];
+      expect(game.points[6].court).toBe("ad");
+    });
+  });
+
+  describe("Statistics", () => {
+    it("should count placements by court and serve number", () => {
+      match.scorePoint({ winner: 1, placement: "wide" }); // Deuce, first serve
+      match.recordFault();
+      match.scorePoint({
+        winner: 1,
+        outcome: PointOutcome.Ace,
+        placement: "T",
+      }); // Ad, second serve
+      match.scorePoint({ winner: 2, placement: "wide" }); // Deuce, first serve
+
+      const stats = match.getMatchSummary().participants[1].stats as any;
+      expect(stats.servePlacement.deuce[1].wide).toEqual({
+        served: 2,
+        pointsWon: 1,
+        aces: 0,
+      });
+      expect(stats.servePlacement.ad[2].T).toEqual({
+        served: 1,
+        pointsWon: 1,
+        aces: 1,
+      });
+      expect(stats.servePlacement.ad[1].T.served).toBe(0);
+
+      const receiver = match.getMatchSummary().participants[2].stats as any;
+      expect(receiver.servePlacement.deuce[1].wide.served).toBe(0);
+    });
+
+    it("should store the placement on the point", () => {
+      match.scorePoint({ winner: 2, placement: "body" });
+
+      const point = match.toJSON().currentGamePoints[0];
+      expect(point.placement).toBe("body");
+      expect(point.court).toBe("deuce");
+    });
+
+    it("should credit the serving player in doubles", () => {
+      const doubles = new TennisMatch(["A1", "A2"], ["B1", "B2"], 3);
+      const serverId = doubles.getMatchSummary().score.server.current;
+
+      doubles.scorePoint({ winner: 1, placement: "T" });
+
+      const t1 = doubles.getMatchSummary().participants[1].stats as any;
+      expect(t1.servePlacement.deuce[1].T.served).toBe(1);
+      expect(t1.playerStats[serverId].servePlacement.deuce[1].T.served).toBe(1);
+    });
+
+    it("should reject a placement on a double fault", () => {
+      expect(() =>
+        match.scorePoint({
+          winner: 2,
+          outcome: PointOutcome.DoubleFault,
+          placement: "wide",
+        })
+      ).toThrow("A double fault has no serve placement");
+      expect(match.toJSON().currentGamePoints).toHaveLength(0);
+    });
+  });
+});
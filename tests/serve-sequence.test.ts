@@ -0,0 +1,133 @@
+import { TennisMatch, PointOutcome, MatchConfig } from "../src";
+
+describe("Serve Sequence", () => {
+  let match: TennisMatch;
+
+  beforeEach(() => {
+    match = new TennisMatch("Player A", "Player B", 3);
+  });
+
+  it("should move to a second serve after a fault", () => {
+    match.recordFault();
+
+    const summary = match.getMatchSummary();
+    expect(summary.score.server.serveNumber).toBe(2);
+    expect(summary.score.points).toEqual({ type: "game", values: [0, 0] });
+  });
+
+  it("should score a double fault for the receiver after two faults", () => {
+    match.recordFault();
+    match.recordFault();
+
+    const summary = match.getMatchSummary();
+    expect(summary.score.points).toEqual({ type: "game", values: [0, 15] });
+    expect(summary.score.server.serveNumber).toBe(1);
+
+    const point = match.toJSON().currentGamePoints[0];
+    expect(point.winner).toBe(2);
+    expect(point.outcome).toBe(PointOutcome.DoubleFault);
+    expect(point.fault).toBe(2);
+
+    const stats = summary.participants[1].stats as any;
+    expect(stats.serving.doubleFaults).toBe(1);
+    expect(stats.serving.firstServeTotal).toBe(1);
+    expect(stats.serving.secondServeTotal).toBe(1);
+    expect(stats.serving.secondServeIn).toBe(0);
+  });
+
+  it("should record lets without changing the serve number", () => {
+    match.recordLet();
+    match.recordLet();
+
+    let summary = match.getMatchSummary();
+    expect(summary.score.server.serveNumber).toBe(1);
+    expect(summary.score.server.lets).toBe(2);
+
+    match.recordFault();
+    match.recordLet();
+    match.scorePoint(1);
+
+    summary = match.getMatchSummary();
+    const point = match.toJSON().currentGamePoints[0];
+    expect(point.fault).toBe(1);
+    expect(point.lets).toBe(3);
+    expect(summary.score.server.lets).toBe(0);
+  });
+
+  it("should count first and second serves from the recorded faults", () => {
+    match.scorePoint(2); // First serve in, point lost
+    match.recordFault();
+    match.scorePoint(1); // Second serve in, point won
+    match.recordFault();
+    match.scorePoint(2); // Second serve in, point lost
+
+    const stats = match.getMatchSummary().participants[1].stats as any;
+    expect(stats.serving.firstServeTotal).toBe(3);
+    expect(stats.serving.firstServeIn).toBe(1);
+    expect(stats.serving.pointsWonOnFirstServe).toBe(0);
+    expect(stats.serving.secondServeTotal).toBe(2);
+    expect(stats.serving.secondServeIn).toBe(2);
+    expect(stats.serving.pointsWonOnSecondServe).toBe(1);
+
+    const returner = match.getMatchSummary().participants[2].stats as any;
+    expect(returner.returning.firstServeReturnPointsPlayed).toBe(1);
+    expect(returner.returning.firstServeReturnPointsWon).toBe(1);
+    expect(returner.returning.secondServeReturnPointsPlayed).toBe(2);
+    expect(returner.returning.secondServeReturnPointsWon).toBe(1);
+  });
+
+  it("should record a second-serve ace after a fault", () => {
+    match.recordFault();
+    match.scorePoint(1, PointOutcome.Ace);
+
+    const stats = match.getMatchSummary().participants[1].stats as any;
+    expect(stats.serving.aces).toBe(1);
+    expect(stats.serving.firstServeIn).toBe(0);
+    expect(stats.serving.secondServeIn).toBe(1);
+    expect(stats.serving.pointsWonOnSecondServe).toBe(1);
+  });
+
+  it("should undo a pending fault before the last point", () => {
+    match.scorePoint(1);
+    match.recordFault();
+
+    match.removePoint();
+    let summary = match.getMatchSummary();
+    expect(summary.score.server.serveNumber).toBe(1);
+    expect(summary.score.points).toEqual({ type: "game", values: [15, 0] });
+
+    match.removePoint();
+    summary = match.getMatchSummary();
+    expect(summary.score.points).toEqual({ type: "game", values: [0, 0] });
+  });
+
+  it("should keep a pending fault through serialization", () => {
+    match.recordFault();
+
+    const restored = TennisMatch.fromJSON(match.toJSON());
+    expect(restored.getMatchSummary().score.server.serveNumber).toBe(2);
+
+    restored.recordFault();
+    expect(restored.getMatchSummary().score.points).toEqual({
+      type: "game",
+      values: [0, 15],
+    });
+  });
+
+  it("should not record faults before a required coin toss", () => {
+    const config: MatchConfig = {
+      matchType: "singles",
+      participants: {
+        1: { name: "Player A", id: "a" },
+        2: { name: "Player B", id: "b" },
+      },
+      format: { sets: 3, tiebreakAt: 6, finalSetTiebreak: true },
+      firstServer: "toss",
+    };
+    const tossMatch = TennisMatch.fromConfig(config);
+
+    expect(() => tossMatch.recordFault()).toThrow(
+      "The coin toss must be recorded before the first point"
+    );
+  });
+});
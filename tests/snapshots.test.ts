@@ -0,0 +1,177 @@
+import { TennisMatch, ParticipantPosition, PointOutcome } from "../src";
+import { START, MINUTE, createMatch, wait } from "./helpers";
+
+/**
+ * Scores points one minute apart.
+ */
+function scorePointsMinutely(
+  match: TennisMatch,
+  winner: ParticipantPosition,
+  count: number
+): void {
+  for (let i = 0; i < count; i++) {
+    wait(1);
+    match.scorePoint(winner);
+  }
+}
+
+describe("Match Snapshots", () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: START });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should give the summary after a point without changing the match", () => {
+    const match = createMatch();
+    scorePointsMinutely(match, 1, 4);
+    scorePointsMinutely(match, 2, 2);
+    const before = JSON.stringify(match.toJSON());
+
+    const snapshot = match.getSummaryAfterPoint(1);
+    expect(snapshot.score.points.values).toEqual([30, 0]);
+    expect(snapshot.score.games).toEqual([0, 0]);
+    expect(snapshot.participants[1].stats.pointsWon).toBe(2);
+    expect(snapshot.participants[2].stats.pointsWon).toBe(0);
+
+    expect(JSON.stringify(match.toJSON())).toBe(before);
+    expect(match.getMatchSummary().score.points.values).toEqual([0, 30]);
+  });
+
+  it("should match a match scored up to the same point", () => {
+    const match = createMatch();
+    const expected = createMatch();
+    for (let i = 0; i < 40; i++) {
+      const point = {
+        winner: (i % 3 === 0 ? 2 : 1) as 1 | 2,
+        outcome: i % 7 === 0 ? PointOutcome.Ace : undefined,
+      };
+      match.scorePoint(point);
+      if (i < 30) expected.scorePoint(point);
+    }
+
+    expect(match.getSummaryAfterPoint(29)).toEqual(expected.getMatchSummary());
+  });
+
+  it("should give the summary after a game or at the end of a set", () => {
+    const match = createMatch();
+    scorePointsMinutely(match, 1, 24);
+    scorePointsMinutely(match, 2, 8);
+
+    const afterGame = match.getSummaryAfterGame(1, 3);
+    expect(afterGame.score.games).toEqual([3, 0]);
+    expect(afterGame.currentSetGames).toHaveLength(3);
+
+    const endOfSet = match.getSummaryAfterGame(1);
+    expect(endOfSet.matchScore).toBe("6-0, 0-0");
+    expect(endOfSet.setHistory).toHaveLength(1);
+    expect(endOfSet.participants[1].stats.pointsWon).toBe(24);
+    expect(endOfSet.participants[2].stats.pointsWon).toBe(0);
+
+    expect(match.getSummaryAfterGame(2).score.games).toEqual([0, 2]);
+    expect(() => match.getSummaryAfterGame(2, 3)).toThrow(
+      "Game 3 of set 2 has not been played"
+    );
+    expect(() => match.getSummaryAfterGame(3)).toThrow(
+      "Game 0 of set 3 has not been played"
+    );
+  });
+
+  it("should count penalty points and games", () => {
+    const match = createMatch();
+    scorePointsMinutely(match, 1, 1);
+    match.issueViolation(1, "time"); // Warning
+    match.issueViolation(1, "time"); // Point penalty
+    wait(1);
+    match.issueViolation(1, "time"); // Game penalty
+    scorePointsMinutely(match, 1, 2);
+
+    const afterPenaltyPoint = match.getSummaryAfterPoint(1);
+    expect(afterPenaltyPoint.score.points.values).toEqual([15, 15]);
+    expect(afterPenaltyPoint.violations.map((v) => v.penalty)).toEqual([
+      "warning",
+      "point",
+    ]);
+
+    const afterPenaltyGame = match.getSummaryAfterGame(1, 1);
+    expect(afterPenaltyGame.currentSetGames[0].penalty).toBe(true);
+    expect(afterPenaltyGame.score.games).toEqual([0, 1]);
+    expect(afterPenaltyGame.violations).toHaveLength(3);
+  });
+
+  it("should include what was recorded before the next point", () => {
+    const match = createMatch();
+    scorePointsMinutely(match, 1, 2);
+    match.recordEvent("medicalTimeout", { participant: 2 });
+    match.recordChallenge(2, false);
+    wait(1);
+    match.suspend("Rain");
+    wait(30);
+    match.resume();
+    scorePointsMinutely(match, 2, 1);
+
+    const first = match.getSummaryAfterPoint(0);
+    expect(first.events).toHaveLength(0);
+    expect(first.challenges).toHaveLength(0);
+    expect(first.meta.clock!.suspensions).toHaveLength(0);
+    expect(first.meta.duration).toBe(0);
+
+    const second = match.getSummaryAfterPoint(1);
+    expect(second.events).toHaveLength(1);
+    expect(second.challenges).toHaveLength(1);
+    expect(second.challengeStats[2].made).toBe(1);
+    expect(second.meta.clock!.suspensions).toHaveLength(1);
+    expect(second.meta.duration).toBe(MINUTE);
+    expect(second.meta.status).toBe("in-progress");
+  });
+
+  it("should place records between points recorded in the same millisecond", () => {
+    const match = createMatch();
+    match.scorePoint(1);
+    match.recordChallenge(2, false);
+    match.issueViolation(2, "time"); // Warning
+    match.scorePoint({ winner: 1, timestamp: START });
+    match.issueViolation(1, "time"); // Warning
+    match.issueViolation(1, "time"); // Point penalty
+
+    const first = match.getSummaryAfterPoint(0);
+    expect(first.challenges).toHaveLength(1);
+    expect(first.violations).toHaveLength(1);
+
+    const second = match.getSummaryAfterPoint(1);
+    expect(second.challenges).toHaveLength(1);
+    expect(second.violations.map((v) => v.participant)).toEqual([2, 1]);
+    expect(second.score.points.values).toEqual([30, 0]);
+
+    const third = match.getSummaryAfterPoint(2);
+    expect(third.violations).toHaveLength(3);
+    expect(third.score.points.values).toEqual([30, 15]);
+  });
+
+  it("should end with the match as it is now", () => {
+    const match = createMatch(1);
+    scorePointsMinutely(match, 1, 10);
+    match.recordRetirement(2, "Injury");
+
+    const snapshot = match.getSummaryAfterPoint(9);
+    expect(snapshot).toEqual(match.getMatchSummary());
+    expect(snapshot.meta.status).toBe("retired");
+    expect(snapshot.matchScore).toBe("2-0 ret.");
+    expect(match.getSummaryAfterPoint(8).meta.status).toBe("in-progress");
+  });
+
+  it("should take the winning point of a completed match", () => {
+    const match = createMatch(1);
+    scorePointsMinutely(match, 2, 24);
+
+    const snapshot = match.getSummaryAfterGame(1, 6);
+    expect(snapshot.score.winner).toBe(2);
+    expect(snapshot.meta.status).toBe("completed");
+    expect(snapshot.meta.duration).toBe(23 * MINUTE);
+    expect(() => match.getSummaryAfterPoint(24)).toThrow(
+      "There is no point at index 24"
+    );
+  });
+});
@@ -1,4 +1,4 @@
-import { TennisMatch, PointOutcome } from "../src";
+import { TennisMatch, PointOutcome, Stroke } from "../src";
 
 describe("Statistics Collection", () => {
   describe("Singles", () => {
@@ -81,6 +81,110 @@ describe("Statistics Collection", () => {
       expect(stats2.rally.forcedErrors).toBe(0);
     });
 
+    it("tracks net and baseline points from rally approaches", () => {
+      const match = new TennisMatch("P1", "P2", 3);
+      const [p1Id, p2Id] = [1, 2].map(
+        (pos) => match.getMatchSummary().participants[pos as 1 | 2].info.id
+      );
+
+      // P1 approaches and wins, then approaches and loses
+      match.scorePoint({ winner: 1, rally: { shots: 5, approaches: [p1Id] } });
+      match.scorePoint({ winner: 2, rally: { shots: 7, approaches: [p1Id] } });
+      // Both players stay back
+      match.scorePoint({ winner: 2, rally: { shots: 12, approaches: [] } });
+      // P2 comes in behind a serve
+      match.scorePoint({ winner: 2, rally: { shots: 3, approaches: [p2Id] } });
+
+      const stats1 = match.getMatchSummary().participants[1].stats as any;
+      const stats2 = match.getMatchSummary().participants[2].stats as any;
+      expect(stats1.rally.netPointsPlayed).toBe(2);
+      expect(stats1.rally.netPointsWon).toBe(1);
+      expect(stats1.rally.baselinePointsPlayed).toBe(2);
+      expect(stats1.rally.baselinePointsWon).toBe(0);
+      expect(stats2.rally.netPointsPlayed).toBe(1);
+      expect(stats2.rally.netPointsWon).toBe(1);
+      expect(stats2.rally.baselinePointsPlayed).toBe(3);
+      expect(stats2.rally.baselinePointsWon).toBe(2);
+    });
+
+    it("tracks net and baseline points from the rally end location", () => {
+      const match = new TennisMatch("P1", "P2", 3);
+
+      match.scorePoint({ winner: 1, rally: { shots: 6, endLocation: "net" } });
+      match.scorePoint({
+        winner: 2,
+        rally: { shots: 9, endLocation: "baseline" },
+      });
+      match.scorePoint({ winner: 2, rally: { shots: 4, endLocation: "out" } });
+      match.scorePoint(1);
+
+      const stats1 = match.getMatchSummary().participants[1].stats as any;
+      const stats2 = match.getMatchSummary().participants[2].stats as any;
+      expect(stats1.rally.netPointsPlayed).toBe(1);
+      expect(stats1.rally.netPointsWon).toBe(1);
+      expect(stats1.rally.baselinePointsPlayed).toBe(1);
+      expect(stats2.rally.netPointsPlayed).toBe(0);
+      expect(stats2.rally.baselinePointsPlayed).toBe(1);
+      expect(stats2.rally.baselinePointsWon).toBe(1);
+    });
+
+    it("rejects approaches by players not in the match", () => {
+      const match = new TennisMatch("P1", "P2", 3);
+      expect(() =>
+        match.scorePoint({ winner: 1, rally: { shots: 3, approaches: ["x"] } })
+      ).toThrow("Unknown player in rally approaches: x");
+    });
+
+    it("breaks winners and errors down by the final stroke", () => {
+      const match = new TennisMatch("P1", "P2", 3);
+
+      match.scorePoint({
+        winner: 1,
+        outcome: PointOutcome.Winner,
+        shot: { stroke: Stroke.Forehand, direction: "insideOut" },
+      });
+      match.scorePoint({
+        winner: 1,
+        outcome: PointOutcome.UnforcedError,
+        shot: { stroke: Stroke.Backhand, error: "net" },
+      });
+      match.scorePoint({
+        winner: 2,
+        outcome: PointOutcome.ForcedError,
+        shot: { stroke: Stroke.Volley, error: "wide" },
+      });
+      match.scorePoint({ winner: 2, outcome: PointOutcome.Winner });
+
+      const stats1 = match.getMatchSummary().participants[1].stats as any;
+      const stats2 = match.getMatchSummary().participants[2].stats as any;
+      expect(stats1.strokes.forehand.winners).toBe(1);
+      expect(stats2.strokes.backhand.unforcedErrors).toBe(1);
+      expect(stats1.strokes.backhand.unforcedErrors).toBe(0);
+      expect(stats2.strokes.volley.forcedErrors).toBe(1);
+      // Points without a charted shot only count towards the rally totals
+      expect(stats2.rally.winners).toBe(1);
+      expect(
+        Object.values(stats2.strokes).reduce(
+          (sum: number, s: any) => sum + s.winners,
+          0
+        )
+      ).toBe(0);
+
+      const point = match.toJSON().currentGamePoints[1];
+      expect(point.shot).toEqual({ stroke: "backhand", error: "net" });
+    });
+
+    it("rejects an error type on a point that was not an error", () => {
+      const match = new TennisMatch("P1", "P2", 3);
+      expect(() =>
+        match.scorePoint({
+          winner: 1,
+          outcome: PointOutcome.Winner,
+          shot: { stroke: Stroke.Lob, error: "long" },
+        })
+      ).toThrow("An error type can only be recorded for an error");
+    });
+
     it("leaves non-implemented stats at zero", () => {
       const match = new TennisMatch("P1", "P2", 3);
       const stats1 = match.getMatchSummary().participants[1].stats as any;
@@ -96,11 +200,6 @@ describe("Statistics Collection", () => {
         expect(s.returning.breakPointsWon).toBe(0);
         expect(s.returning.breakPointsPlayed).toBe(0);
         expect(s.returning.returnGamesPlayed).toBe(0);
-
-        expect(s.rally.netPointsWon).toBe(0);
-        expect(s.rally.netPointsPlayed).toBe(0);
-        expect(s.rally.baselinePointsWon).toBe(0);
-        expect(s.rally.baselinePointsPlayed).toBe(0);
       });
     });
   });
@@ -193,6 +292,88 @@ describe("Statistics Collection", () => {
       expect(t1.playerStats[bId].rally.winners).toBe(1);
     });
 
+    it("attributes net points to the approaching player", () => {
+      const match = new TennisMatch(["A1", "A2"], ["B1", "B2"], 3);
+      const team1 = match.getMatchSummary().participants[1].info as any;
+      const team2 = match.getMatchSummary().participants[2].info as any;
+      const [aId, bId] = [team1.players.a.id, team1.players.b.id];
+
+      // Team 1 plays one up, one back and wins the point
+      match.scorePoint({ winner: 1, rally: { shots: 5, approaches: [bId] } });
+      // Team 2 rushes the net with both players and loses
+      match.scorePoint({
+        winner: 1,
+        rally: {
+          shots: 4,
+          approaches: [team2.players.a.id, team2.players.b.id],
+        },
+      });
+
+      const t1 = match.getMatchSummary().participants[1].stats as any;
+      const t2 = match.getMatchSummary().participants[2].stats as any;
+      expect(t1.rally.netPointsPlayed).toBe(1);
+      expect(t1.rally.netPointsWon).toBe(1);
+      expect(t1.rally.baselinePointsPlayed).toBe(1);
+      expect(t1.playerStats[bId].rally.netPointsWon).toBe(1);
+      expect(t1.playerStats[aId].rally.netPointsPlayed).toBe(0);
+      expect(t1.playerStats[aId].rally.baselinePointsPlayed).toBe(1);
+      expect(t1.playerStats[bId].rally.baselinePointsPlayed).toBe(1);
+
+      expect(t2.rally.netPointsPlayed).toBe(1);
+      expect(t2.rally.netPointsWon).toBe(0);
+      expect(t2.playerStats[team2.players.a.id].rally.netPointsPlayed).toBe(1);
+      expect(t2.playerStats[team2.players.b.id].rally.netPointsPlayed).toBe(1);
+    });
+
+    it("credits a net finish to the scorer", () => {
+      const match = new TennisMatch(["A1", "A2"], ["B1", "B2"], 3);
+      const team1 = match.getMatchSummary().participants[1].info as any;
+      const aId = team1.players.a.id;
+
+      match.scorePoint({
+        winner: 1,
+        outcome: PointOutcome.Winner,
+        scorer: aId,
+        rally: { shots: 3, endLocation: "net" },
+      });
+
+      const t1 = match.getMatchSummary().participants[1].stats as any;
+      expect(t1.rally.netPointsWon).toBe(1);
+      expect(t1.playerStats[aId].rally.netPointsWon).toBe(1);
+      expect(t1.playerStats[team1.players.b.id].rally.netPointsPlayed).toBe(0);
+    });
+
+    it("attributes stroke winners and errors to individual players", () => {
+      const match = new TennisMatch(["A1", "A2"], ["B1", "B2"], 3);
+      const team1 = match.getMatchSummary().participants[1].info as any;
+      const team2 = match.getMatchSummary().participants[2].info as any;
+      const aId = team1.players.a.id;
+      const erringId = team2.players.b.id;
+
+      match.scorePoint({
+        winner: 1,
+        outcome: PointOutcome.Winner,
+        scorer: aId,
+        shot: { stroke: Stroke.Overhead },
+      });
+      match.scorePoint({
+        winner: 1,
+        outcome: PointOutcome.UnforcedError,
+        scorer: erringId,
+        shot: { stroke: Stroke.DropShot, error: "net" },
+      });
+
+      const t1 = match.getMatchSummary().participants[1].stats as any;
+      const t2 = match.getMatchSummary().participants[2].stats as any;
+      expect(t1.strokes.overhead.winners).toBe(1);
+      expect(t1.playerStats[aId].strokes.overhead.winners).toBe(1);
+      expect(t1.playerStats[team1.players.b.id].strokes.overhead.winners).toBe(
+        0
+      );
+      expect(t2.strokes.dropShot.unforcedErrors).toBe(1);
+      expect(t2.playerStats[erringId].strokes.dropShot.unforcedErrors).toBe(1);
+    });
+
     it("leaves non-implemented team/player stats at zero", () => {
       const match = new TennisMatch(["A1", "A2"], ["B1", "B2"], 3);
       const t1 = match.getMatchSummary().participants[1].stats as any;
@@ -208,11 +389,6 @@ describe("Statistics Collection", () => {
         expect(s.returning.breakPointsWon).toBe(0);
         expect(s.returning.breakPointsPlayed).toBe(0);
         expect(s.returning.returnGamesPlayed).toBe(0);
-
-        expect(s.rally.netPointsWon).toBe(0);
-        expect(s.rally.netPointsPlayed).toBe(0);
-        expect(s.rally.baselinePointsWon).toBe(0);
-        expect(s.rally.baselinePointsPlayed).toBe(0);
       };
 
       zeroCheck(t1);
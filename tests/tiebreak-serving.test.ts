@@ -0,0 +1,185 @@
+import { TennisMatch } from "../src";
+import { HOLDS_TO_SIX_ALL, playGames, playPoints } from "./helpers";
+
+/**
+ * Sets are replayed game by game and point by point to check who serves
+ * after tiebreaks. Game strings list game winners; tiebreak strings list
+ * point winners.
+ */
+const currentServer = (match: TennisMatch) =>
+  match.getMatchSummary().score.server.current;
+
+describe("Serving After Tiebreaks", () => {
+  describe("Singles", () => {
+    let match: TennisMatch;
+    let p1: string;
+    let p2: string;
+
+    beforeEach(() => {
+      match = new TennisMatch("Server", "Receiver", 3);
+      const summary = match.getMatchSummary();
+      p1 = summary.participants[1].info.id;
+      p2 = summary.participants[2].info.id;
+    });
+
+    it.each([
+      ["7-0", "1111111"],
+      ["7-2", "121111211"],
+      ["7-5", "122112121211"],
+      ["5-7", "211221212122"],
+      ["10-8", "121212121212212111"],
+    ])(
+      "should give the next set to the tiebreak's first receiver after %s",
+      (_score, tiebreak) => {
+        playGames(match, HOLDS_TO_SIX_ALL);
+        expect(currentServer(match)).toBe(p1);
+
+        playPoints(match, tiebreak);
+
+        const summary = match.getMatchSummary();
+        expect(summary.setHistory.length).toBe(1);
+        expect(summary.setHistory[0].games[12].server).toBe(p1);
+        expect(summary.setHistory[0].tiebreak!.points[0].server).toBe(p1);
+        expect(currentServer(match)).toBe(p2);
+      }
+    );
+
+    it("should alternate tiebreak servers after the first point", () => {
+      playGames(match, HOLDS_TO_SIX_ALL);
+      playPoints(match, "121212121211");
+
+      const points = match.getMatchSummary().setHistory[0].tiebreak!.points;
+      const servers = points.map((point) => (point.server === p1 ? 1 : 2));
+      expect(servers).toEqual([1, 2, 2, 1, 1, 2, 2, 1, 1, 2, 2, 1]);
+    });
+
+    it("should alternate first servers across consecutive tiebreak sets", () => {
+      // Set 1: 7-6(7), tiebreak opened by player 1
+      playGames(match, HOLDS_TO_SIX_ALL);
+      playPoints(match, "1212121212121211");
+      expect(currentServer(match)).toBe(p2);
+
+      // Set 2: 6-7(3), player 2 serves the odd games and opens the tiebreak
+      playGames(match, "212121212121");
+      expect(currentServer(match)).toBe(p2);
+      playPoints(match, "2121212222");
+
+      const summary = match.getMatchSummary();
+      expect(summary.matchScore).toBe("7-6(7), 6-7(3), 0-0");
+      expect(summary.setHistory[1].tiebreak!.points[0].server).toBe(p2);
+      expect(currentServer(match)).toBe(p1);
+    });
+
+    it("should continue the rotation after a set without a tiebreak", () => {
+      // 6-4: player 2 served the tenth game, so player 1 opens the next set
+      playGames(match, "1212121211");
+      expect(match.getMatchSummary().setHistory[0].score).toEqual([6, 4]);
+      expect(currentServer(match)).toBe(p1);
+    });
+
+    it("should start a match tiebreak with the first receiver of the previous tiebreak", () => {
+      const short = new TennisMatch("Server", "Receiver", {
+        sets: 3,
+        matchTiebreak: true,
+      });
+      const ids = short.getMatchSummary();
+      const s1 = ids.participants[1].info.id;
+      const s2 = ids.participants[2].info.id;
+
+      // Set 1: 6-0, player 2 serves the second game so player 1 opens set 2
+      playGames(short, "111111");
+      expect(currentServer(short)).toBe(s1);
+
+      // Set 2: 6-7, tiebreak opened by player 1
+      playGames(short, HOLDS_TO_SIX_ALL);
+      playPoints(short, "2222222");
+
+      const summary = short.getMatchSummary();
+      expect(summary.score.points.type).toBe("tiebreak");
+      expect(currentServer(short)).toBe(s2);
+
+      playPoints(short, "2");
+      expect(currentServer(short)).toBe(s1);
+    });
+
+    it("should restore the tiebreak server on undo", () => {
+      playGames(match, HOLDS_TO_SIX_ALL);
+      playPoints(match, "121111211");
+      expect(currentServer(match)).toBe(p2);
+
+      // The set point was served by player 1
+      match.removePoint();
+      expect(currentServer(match)).toBe(p1);
+      expect(match.getMatchSummary().score.points.values).toEqual([6, 2]);
+
+      // 6-2 was also reached on a point served by player 1
+      match.removePoint();
+      expect(currentServer(match)).toBe(p1);
+
+      // 5-2 was reached on a point served by player 2
+      match.removePoint();
+      expect(currentServer(match)).toBe(p2);
+      expect(match.getMatchSummary().score.points.values).toEqual([5, 1]);
+    });
+  });
+
+  describe("Doubles", () => {
+    let match: TennisMatch;
+    let t1: any;
+    let t2: any;
+
+    beforeEach(() => {
+      match = new TennisMatch(["A1", "A2"], ["B1", "B2"], 3);
+      const summary = match.getMatchSummary();
+      t1 = summary.participants[1].info;
+      t2 = summary.participants[2].info;
+    });
+
+    it.each([
+      ["7-3", "1211112121"],
+      ["6-8", "12121212121222"],
+    ])(
+      "should give the next set to the receiving team after a %s tiebreak",
+      (_score, tiebreak) => {
+        playGames(match, HOLDS_TO_SIX_ALL);
+        expect(currentServer(match)).toBe(t1.players.a.id);
+
+        playPoints(match, tiebreak);
+
+        expect(match.getMatchSummary().setHistory[0].games[12].server).toBe(
+          t1.players.a.id
+        );
+        expect(currentServer(match)).toBe(t2.players.a.id);
+      }
+    );
+
+    it("should rotate through all four players in the tiebreak", () => {
+      playGames(match, HOLDS_TO_SIX_ALL);
+      playPoints(match, "1212121");
+
+      const order = [
+        t1.players.a.id,
+        t2.players.a.id,
+        t2.players.a.id,
+        t1.players.b.id,
+        t1.players.b.id,
+        t2.players.b.id,
+        t2.players.b.id,
+      ];
+      expect(currentServer(match)).toBe(t1.players.a.id);
+      expect(match.getMatchSummary().currentSetGames.length).toBe(12);
+
+      playPoints(match, "1111");
+      const tiebreak = match.getMatchSummary().setHistory[0].tiebreak!;
+      expect(tiebreak.points.slice(0, 7).map((p) => p.server)).toEqual(order);
+    });
+
+    it("should let the receiving team reselect its order after a tiebreak", () => {
+      playGames(match, HOLDS_TO_SIX_ALL);
+      playPoints(match, "1111111");
+
+      match.setServingOrder({ 2: "b" });
+      expect(currentServer(match)).toBe(t2.players.b.id);
+    });
+  });
+});
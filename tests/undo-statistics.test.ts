@@ -0,0 +1,176 @@
+import { TennisMatch, PointInput, PointOutcome, Stroke } from "../src";
+import {
+  createMatch,
+  createDoublesMatch,
+  getSavedData,
+  playToTiebreak,
+  scorePoints,
+} from "./helpers";
+
+/**
+ * Creates a seeded pseudo-random number generator, so every run scores the
+ * same sequence of points.
+ */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+}
+
+/**
+ * Picks a varied point for the current server: aces, double faults, faults,
+ * winners and errors with strokes, and plain points.
+ */
+function nextPoint(
+  match: TennisMatch,
+  serverSide: (serverId: string) => 1 | 2,
+  random: () => number
+): PointInput {
+  const server = serverSide(match.getMatchSummary().score.server.current);
+  const receiver = server === 1 ? 2 : 1;
+  // Servers win most points, so games are held and broken
+  const winner = random() < 0.6 ? server : receiver;
+  const roll = random();
+
+  if (roll < 0.1) {
+    return { winner: server, outcome: PointOutcome.Ace, placement: "T" };
+  }
+  if (roll < 0.15) {
+    return { winner: receiver, outcome: PointOutcome.DoubleFault };
+  }
+  if (roll < 0.3) {
+    return {
+      winner,
+      outcome: PointOutcome.Winner,
+      shot: { stroke: Stroke.Forehand },
+      fault: 1,
+    };
+  }
+  if (roll < 0.45) {
+    return {
+      winner,
+      outcome: PointOutcome.UnforcedError,
+      rally: { shots: 5, endLocation: "net" },
+    };
+  }
+  if (roll < 0.5) {
+    return { winner, isFirstServe: false };
+  }
+  return { winner };
+}
+
+/**
+ * Copies the statistics of both participants.
+ */
+function getStats(match: TennisMatch) {
+  const { participants } = match.getMatchSummary();
+  return JSON.parse(
+    JSON.stringify({ 1: participants[1].stats, 2: participants[2].stats })
+  );
+}
+
+/**
+ * Scores points one at a time, then undoes them all, checking that the
+ * statistics after each undo are exactly those from before the point.
+ */
+function checkUndo(
+  match: TennisMatch,
+  serverSide: (serverId: string) => 1 | 2,
+  pointCount: number,
+  seed: number
+): void {
+  const random = createRandom(seed);
+  const history = [getStats(match)];
+  for (let i = 0; i < pointCount; i++) {
+    if (match.getMatchSummary().score.winner) break;
+    match.scorePoint(nextPoint(match, serverSide, random));
+    history.push(getStats(match));
+  }
+
+  for (let i = history.length - 2; i >= 0; i--) {
+    match.removePoint();
+    expect(getStats(match)).toEqual(history[i]);
+  }
+}
+
+describe("Undo Statistics", () => {
+  const singlesSide = (serverId: string) => (serverId === "p1" ? 1 : 2);
+  const doublesSide = (serverId: string) =>
+    serverId === "a1" || serverId === "b1" ? 1 : 2;
+
+  it("should restore singles statistics after every undo", () => {
+    checkUndo(createMatch(), singlesSide, 200, 7);
+  });
+
+  it("should restore statistics when undoing across sets and tiebreaks", () => {
+    const match = createMatch();
+    // Hold serve to 6-6 and play the tiebreak
+    playToTiebreak(match);
+    const before = getStats(match);
+    for (let i = 0; i < 7; i++) {
+      match.scorePoint({ winner: 1, outcome: PointOutcome.Winner });
+    }
+    checkUndo(match, singlesSide, 60, 11);
+
+    for (let i = 0; i < 7; i++) {
+      match.removePoint();
+    }
+    expect(getStats(match)).toEqual(before);
+    expect(match.getMatchScoreString()).toBe("6-6");
+  });
+
+  it("should restore doubles team and player statistics after every undo", () => {
+    checkUndo(createDoublesMatch(), doublesSide, 200, 3);
+  });
+
+  it("should restore statistics when undoing the winning point", () => {
+    const match = createMatch(1);
+    scorePoints(match, 1, 23);
+    const before = getStats(match);
+
+    match.scorePoint({ winner: 1, outcome: PointOutcome.Ace });
+    expect(match.getMatchSummary().score.winner).toBe(1);
+    match.removePoint();
+
+    expect(getStats(match)).toEqual(before);
+  });
+
+  it("should restore statistics after corrections and loading old data", () => {
+    const match = createMatch();
+    const random = createRandom(5);
+    const history = [getStats(match)];
+    for (let i = 0; i < 30; i++) {
+      match.scorePoint(nextPoint(match, singlesSide, random));
+      history.push(getStats(match));
+    }
+
+    // A correction that changes nothing keeps the statistics to restore
+    match.editPoint(3, {});
+    match.removePoint();
+    expect(getStats(match)).toEqual(history[29]);
+
+    // Data saved without an input log has no statistics to restore from
+    const { inputs, ...data } = getSavedData(match);
+    const restored = TennisMatch.fromJSON(data);
+    for (let i = 28; i >= 20; i--) {
+      restored.removePoint();
+      expect(getStats(restored)).toEqual(history[i]);
+    }
+  });
+
+  it("should leave statistics alone when undoing faults and penalties", () => {
+    const match = createMatch();
+    match.scorePoint({ winner: 1, outcome: PointOutcome.Ace });
+    const before = getStats(match);
+
+    match.issueViolation(2, "time"); // Warning
+    match.issueViolation(2, "time"); // Point penalty
+    match.recordFault();
+    match.removePoint();
+    match.removePoint();
+
+    expect(getStats(match)).toEqual(before);
+  });
+});